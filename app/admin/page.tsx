@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FeedbackSummary, RatingTally } from "../../lib/analytics";
+import type { FeedbackRecord } from "../../lib/feedback";
+
+type FeedbackResponse = {
+  items: FeedbackRecord[];
+  summary: FeedbackSummary;
+};
+
+const tokenKey = "uzbektourist-admin-token";
+
+function percent(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function TallyTable({ title, rows }: { title: string; rows: RatingTally[] }) {
+  return (
+    <section className="card">
+      <h2 className="admin-heading">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="helper">No feedback yet.</p>
+      ) : (
+        <table className="admin-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Helpful</th>
+              <th>Not helpful</th>
+              <th>Helpful %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.key}>
+                <td>
+                  {row.key.startsWith("http") ? (
+                    <a href={row.key} target="_blank" rel="noreferrer">
+                      {row.label}
+                    </a>
+                  ) : (
+                    row.label
+                  )}
+                </td>
+                <td>{row.helpful}</td>
+                <td>{row.notHelpful}</td>
+                <td>{percent(row.helpfulRatio)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </section>
+  );
+}
+
+export default function AdminPage() {
+  const [token, setToken] = useState("");
+  const [mode, setMode] = useState("");
+  const [rating, setRating] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [data, setData] = useState<FeedbackResponse | null>(null);
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(tokenKey) ?? "");
+  }, []);
+
+  async function load() {
+    setLoading(true);
+    setError("");
+    sessionStorage.setItem(tokenKey, token);
+
+    const params = new URLSearchParams();
+    if (mode) params.set("mode", mode);
+    if (rating) params.set("rating", rating);
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+
+    try {
+      const res = await fetch(`/api/admin/feedback?${params}`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      const payload = await res.json().catch(() => null);
+      if (!res.ok) {
+        throw new Error(payload?.error || `Request failed (${res.status}).`);
+      }
+      setData(payload as FeedbackResponse);
+    } catch (err) {
+      setData(null);
+      setError(err instanceof Error ? err.message : "Request failed.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const summary = data?.summary;
+
+  return (
+    <main>
+      <div className="container">
+        <header className="header">
+          <div className="brand">
+            <h1>Feedback</h1>
+            <p>Ratings by source, topic and city, and questions that keep getting thumbs down.</p>
+          </div>
+        </header>
+
+        <section className="card">
+          <div className="form-row">
+            <label className="stacked-field">
+              <span className="helper">Admin token</span>
+              <input
+                className="input"
+                type="password"
+                value={token}
+                onChange={(event) => setToken(event.target.value)}
+              />
+            </label>
+            <label className="stacked-field">
+              <span className="helper">Mode</span>
+              <select className="select" value={mode} onChange={(event) => setMode(event.target.value)}>
+                <option value="">All</option>
+                <option value="chat">Chat</option>
+                <option value="itinerary">Itinerary</option>
+              </select>
+            </label>
+            <label className="stacked-field">
+              <span className="helper">Rating</span>
+              <select className="select" value={rating} onChange={(event) => setRating(event.target.value)}>
+                <option value="">All</option>
+                <option value="1">Helpful</option>
+                <option value="-1">Not helpful</option>
+              </select>
+            </label>
+            <label className="stacked-field">
+              <span className="helper">From</span>
+              <input className="input" type="date" value={from} onChange={(event) => setFrom(event.target.value)} />
+            </label>
+            <label className="stacked-field">
+              <span className="helper">To</span>
+              <input className="input" type="date" value={to} onChange={(event) => setTo(event.target.value)} />
+            </label>
+          </div>
+          <div className="stacked-field">
+            <button className="button" onClick={load} disabled={loading || !token}>
+              {loading ? "Loading…" : "Load feedback"}
+            </button>
+            {error && <span className="helper">{error}</span>}
+          </div>
+        </section>
+
+        {summary && (
+          <>
+            <section className="card">
+              <p className="admin-totals">
+                {summary.total} ratings · {summary.helpful} helpful · {summary.notHelpful} not helpful ·{" "}
+                {percent(summary.helpfulRatio)} helpful
+              </p>
+            </section>
+
+            <section className="card">
+              <h2 className="admin-heading">Repeated negative questions</h2>
+              {summary.repeatedNegatives.length === 0 ? (
+                <p className="helper">No question has been rated down more than once.</p>
+              ) : (
+                <table className="admin-table">
+                  <thead>
+                    <tr>
+                      <th>Question</th>
+                      <th>Times</th>
+                      <th>Last seen</th>
+                      <th>Cited sources</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {summary.repeatedNegatives.map((entry) => (
+                      <tr key={`${entry.question}-${entry.lastSeen}`}>
+                        <td>{entry.question}</td>
+                        <td>{entry.count}</td>
+                        <td>{entry.lastSeen.slice(0, 10)}</td>
+                        <td>
+                          {entry.sources.map((url) => (
+                            <div key={url}>
+                              <a href={url} target="_blank" rel="noreferrer">
+                                {url}
+                              </a>
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+
+            <TallyTable title="By source" rows={summary.bySource} />
+            <TallyTable title="By topic" rows={summary.byTopic} />
+            <TallyTable title="By city" rows={summary.byCity} />
+            <TallyTable title="By issue" rows={summary.byCategory} />
+
+            <section className="card">
+              <h2 className="admin-heading">Latest feedback</h2>
+              <table className="admin-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Mode</th>
+                    <th>Rating</th>
+                    <th>Question</th>
+                    <th>Issue</th>
+                    <th>Comment</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.items.map((item) => (
+                    <tr key={item.id}>
+                      <td>{item.createdAt.slice(0, 10)}</td>
+                      <td>{item.mode ?? "—"}</td>
+                      <td>{item.rating === 1 ? "👍" : "👎"}</td>
+                      <td>{item.question ?? "—"}</td>
+                      <td>{item.category?.replace(/_/g, " ") ?? "—"}</td>
+                      <td>{item.comment ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          </>
+        )}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { isAdmin, unauthorized } from "../../../../lib/admin";
+import { cacheStats, purgeCache } from "../../../../lib/cache";
+
+export async function GET(req: Request) {
+  if (!isAdmin(req)) return unauthorized();
+  return NextResponse.json(await cacheStats());
+}
+
+// Call after re-ingesting sources.json so answers built from the old sources
+// are not served until they expire.
+export async function DELETE(req: Request) {
+  if (!isAdmin(req)) return unauthorized();
+
+  try {
+    const purged = await purgeCache();
+    return NextResponse.json({ ok: true, purged });
+  } catch {
+    return NextResponse.json({ error: "Failed to purge cache." }, { status: 500 });
+  }
+}
@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { isAdmin, unauthorized } from "../../../../lib/admin";
+import { summarizeFeedback } from "../../../../lib/analytics";
+import { listFeedback, listFeedbackRatings, type FeedbackFilters } from "../../../../lib/feedback";
+import { invalidRequest, schemaNotReady } from "../../../../lib/http";
+import { isSchemaBehind } from "../../../../lib/migrations";
+import type { FieldError } from "../../../../lib/validation";
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 500;
+// The summary covers more rows than the page lists so ratios are not skewed
+// towards the newest feedback; it reads ratings, sources and cited ids only.
+const SUMMARY_LIMIT = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: string, endOfDay: boolean) {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return null;
+  // A bare date as `to` means "through that day".
+  return endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(date.getTime() + DAY_MS) : date;
+}
+
+function parseFilters(params: URLSearchParams) {
+  const errors: FieldError[] = [];
+  const filters: FeedbackFilters = { limit: SUMMARY_LIMIT };
+
+  const mode = params.get("mode");
+  if (mode) {
+    if (mode === "chat" || mode === "itinerary") filters.mode = mode;
+    else errors.push({ path: "mode", message: "must be one of chat, itinerary" });
+  }
+
+  const rating = params.get("rating");
+  if (rating) {
+    if (rating === "1" || rating === "-1") filters.rating = rating === "1" ? 1 : -1;
+    else errors.push({ path: "rating", message: "must be 1 or -1" });
+  }
+
+  for (const key of ["from", "to"] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const date = parseDate(value, key === "to");
+    if (date) filters[key] = date;
+    else errors.push({ path: key, message: "must be an ISO date" });
+  }
+
+  const limitParam = params.get("limit");
+  const limit = limitParam ? Number(limitParam) : DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    errors.push({ path: "limit", message: `must be an integer from 1 to ${MAX_LIMIT}` });
+  }
+
+  return { filters, limit, errors };
+}
+
+export async function GET(req: Request) {
+  if (!isAdmin(req)) return unauthorized();
+
+  const { filters, limit, errors } = parseFilters(new URL(req.url).searchParams);
+  if (errors.length > 0) {
+    return invalidRequest(errors);
+  }
+
+  try {
+    const [items, ratings] = await Promise.all([
+      listFeedback({ ...filters, limit }),
+      listFeedbackRatings(filters)
+    ]);
+    return NextResponse.json({ items, summary: summarizeFeedback(ratings) });
+  } catch (error) {
+    if (isSchemaBehind(error)) return schemaNotReady();
+    return NextResponse.json({ error: "Failed to load feedback." }, { status: 500 });
+  }
+}
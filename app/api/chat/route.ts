@@ -1,74 +1,205 @@
 import { createHash } from "node:crypto";
 import { NextResponse } from "next/server";
-import { retrieve } from "../../../lib/rag";
-
-type Message = {
-  role: "system" | "user" | "assistant";
-  content: string;
+import { cacheGet, cacheSet } from "../../../lib/cache";
+import { stripCitations, verifyCitations, type CitationReport } from "../../../lib/citations";
+import {
+  groundingStatus,
+  refusalText,
+  resolveGroundingPolicy,
+  unverifiedBanner,
+  type GroundingStatus
+} from "../../../lib/grounding";
+import {
+  ITINERARY_LABELS,
+  RESPONSE_LANGUAGE,
+  resolveLanguage,
+  type Language
+} from "../../../lib/i18n";
+import {
+  ITINERARY_JSON_SCHEMA,
+  itineraryToMarkdown,
+  mapItineraryText,
+  parseItinerary,
+  validateItinerary,
+  type Itinerary,
+  type TripStop
+} from "../../../lib/itinerary";
+import { detectCities, rewriteQuery } from "../../../lib/query";
+import { invalidRequest, MAX_BODY_BYTES, readJsonBody, tooManyRequests } from "../../../lib/http";
+import { resolveProvider, type ChatMessage } from "../../../lib/provider";
+import { chunkUrl, officialSources, retrieve } from "../../../lib/rag";
+import { rateLimit } from "../../../lib/ratelimit";
+import { validateChatBody, type ChatBody } from "../../../lib/validation";
+
+type SourceLink = {
+  id: string;
+  title: string;
+  url: string;
+  verifiedAt: string | null;
+  stale: boolean;
 };
 
-type ChatBody = {
-  mode: "chat" | "itinerary";
-  messages?: Message[];
-  city?: string;
-  days?: number;
-  style?: string;
-  budget?: string;
-  interests?: string;
-};
+type StreamEvent =
+  | { type: "sources"; sources: SourceLink[]; grounding: GroundingStatus }
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      text: string;
+      sources: SourceLink[];
+      itinerary?: Itinerary;
+      citations?: CitationReport;
+      grounding: GroundingStatus;
+      model?: string;
+    }
+  | { type: "error"; error: string };
 
 const MAX_TOKENS = {
   chat: 600,
-  itinerary: 1200
+  itinerary: 1200,
+  multiCity: 2000
 };
 
 const MAX_HISTORY = 10;
 const CACHE_TTL_MS = 1000 * 60 * 10;
-const CACHE_VERSION = 2;
-const responseCache = new Map<
-  string,
-  { expires: number; text: string; sources?: Array<{ id: string; title: string; url: string }> }
->();
+const CACHE_VERSION = 7;
+
+type Answer = {
+  text: string;
+  itinerary?: Itinerary;
+  citations?: CitationReport;
+  grounding: GroundingStatus;
+  model?: string;
+};
+
+type CachedAnswer = Answer & {
+  sources: SourceLink[];
+};
+
+const encoder = new TextEncoder();
 
-function baseSystemPrompt() {
+function baseSystemPrompt(language: Language) {
   return [
     "You are uzbektourist.ai, a minimal travel assistant for Uzbekistan.",
     "Focus: Tashkent, Samarkand, Bukhara, Khiva, Fergana Valley.",
     "Be concise and practical. If unsure, say so and suggest checking official sources.",
     "You may use markdown for emphasis, lists, and links. Use tables only if they are short.",
     "Do not invent prices or schedules. If needed, give rough ranges and label them as estimates.",
-    "Always respond in English.",
+    RESPONSE_LANGUAGE[language],
     "End every answer with: \"Sources: ...\" using [S1], [S2] if sources were used, or \"Sources: none\" if not."
   ].join(" ");
 }
 
+function resolveStops(body: ChatBody): TripStop[] {
+  if (body.stops && body.stops.length > 0) return body.stops;
+  return [{ city: body.city ?? "", nights: body.days ?? 3 }];
+}
+
+function tripDays(stops: TripStop[]) {
+  return stops.reduce((total, stop) => total + stop.nights, 0);
+}
+
+function transferLegs(body: ChatBody, stops: TripStop[]) {
+  const first = stops[0].city;
+  const last = stops[stops.length - 1].city;
+  const route = [
+    ...(body.startCity && body.startCity !== first ? [body.startCity] : []),
+    ...stops.map((stop) => stop.city),
+    ...(body.endCity && body.endCity !== last ? [body.endCity] : [])
+  ];
+
+  const legs: Array<{ from: string; to: string }> = [];
+  for (let i = 1; i < route.length; i += 1) {
+    if (route[i] !== route[i - 1]) {
+      legs.push({ from: route[i - 1], to: route[i] });
+    }
+  }
+  return legs;
+}
+
 function itineraryPrompt(body: ChatBody) {
-  const city = body.city ?? "";
-  const days = body.days ?? 3;
+  const stops = resolveStops(body);
+  const legs = transferLegs(body, stops);
+  const days = tripDays(stops);
   const style = body.style ?? "balanced";
   const budget = body.budget ?? "standard";
   const interests = body.interests?.trim() || "(none specified)";
 
+  const scope = stops.length === 1 && legs.length === 0
+    ? [`Create a ${days}-day itinerary for ${stops[0].city}.`]
+    : [
+        `Create a single ${days}-day trip visiting, in order: ${stops
+          .map((stop) => `${stop.city} (${stop.nights} ${stop.nights === 1 ? "night" : "nights"})`)
+          .join(" → ")}.`,
+        body.startCity ? `The trip starts in ${body.startCity}.` : "",
+        body.endCity ? `The trip ends in ${body.endCity}.` : "",
+        `Plan these intercity transfers: ${legs.map((leg) => `${leg.from} → ${leg.to}`).join(", ")}.`,
+        "Add one transfers entry per leg with the day it happens and a realistic mode (train, flight or shared taxi), and keep transfer days light.",
+        "Set city on every day to where the traveler spends that day."
+      ].filter(Boolean);
+
   return [
-    `Create a ${days}-day itinerary for ${city}.`,
+    ...scope,
     `Pace: ${style}. Budget: ${budget}.`,
     `Interests/constraints: ${interests}.`,
-    "Do NOT output JSON. If you are about to output JSON, convert it to the markdown table format below.",
-    "Write in clean markdown with a short title.",
-    "Then include a single markdown table with columns: Day | Morning | Afternoon | Evening.",
-    "Each cell should have 2-4 concise bullet points.",
-    "After the table, add a Transport notes section (bullets) and a Practical tips section (table with Tip | Details).",
+    "Respond with ONLY a JSON object, no prose and no code fences, matching this schema:",
+    ITINERARY_JSON_SCHEMA,
+    "Keep the JSON keys exactly as in the schema; only the values follow the response language.",
+    `Include exactly ${days} entries in days, numbered from 1.`,
+    "Each of morning, afternoon and evening should have 2-4 concise items.",
+    "Add transportNotes for getting around and tips as short label/details pairs.",
     "Do not invent exact prices or hours. If needed, give rough ranges and label as estimates.",
-    "End with a Sources line like: Sources: [S1] [S2] or Sources: none."
+    "List the cited source ids in sources, e.g. [\"S1\", \"S2\"], or [\"none\"] if no sources were used."
   ].join(" ");
 }
 
-function buildUrl(baseUrl: string) {
-  const trimmed = baseUrl.replace(/\/$/, "");
-  if (trimmed.endsWith("/v1")) {
-    return `${trimmed}/chat/completions`;
+function uniqueChunks(chunks: ReturnType<typeof retrieve>) {
+  const seen = new Set<string>();
+  return chunks.filter((chunk) => {
+    if (seen.has(chunk.id)) return false;
+    seen.add(chunk.id);
+    return true;
+  });
+}
+
+function retrieveItinerarySources(body: ChatBody) {
+  const stops = resolveStops(body);
+  const legs = transferLegs(body, stops);
+  const multiCity = stops.length > 1 || legs.length > 0;
+  const interests = body.interests ?? "";
+
+  const web: ReturnType<typeof retrieve> = [];
+  const kb: ReturnType<typeof retrieve> = [];
+
+  for (const stop of stops) {
+    const query = `${stop.city} ${interests} itinerary`;
+    const boost = { cities: detectCities(stop.city) };
+    web.push(...retrieve(query, multiCity ? 2 : 4, { includeKb: false, boost }));
+    kb.push(...retrieve(query, multiCity ? 2 : 3, { includeWeb: false, boost }));
+  }
+
+  for (const leg of legs) {
+    web.push(
+      ...retrieve(`${leg.from} to ${leg.to} train flight transfer`, 1, {
+        includeKb: false,
+        boost: { cities: detectCities(`${leg.from} ${leg.to}`) }
+      })
+    );
+  }
+
+  // A single-city trip has no legs, but getting there is still part of it.
+  if (!multiCity) {
+    web.push(
+      ...retrieve(`to ${stops[0].city} train flight transfer`, 2, {
+        includeKb: false,
+        boost: { cities: detectCities(stops[0].city) }
+      })
+    );
   }
-  return `${trimmed}/v1/chat/completions`;
+
+  return {
+    webSources: uniqueChunks(web).slice(0, 6),
+    kbSources: uniqueChunks(kb).slice(0, 4)
+  };
 }
 
 function buildCacheKey(body: ChatBody, sourceIds: string[]) {
@@ -77,9 +208,13 @@ function buildCacheKey(body: ChatBody, sourceIds: string[]) {
     messages: body.messages,
     city: body.city,
     days: body.days,
+    stops: body.stops,
+    startCity: body.startCity,
+    endCity: body.endCity,
     style: body.style,
     budget: body.budget,
     interests: body.interests,
+    language: resolveLanguage(body.language),
     sources: sourceIds,
     cacheVersion: CACHE_VERSION
   };
@@ -92,14 +227,22 @@ function formatSources(chunks: ReturnType<typeof retrieve>) {
   }
 
   const blocks = chunks.map((chunk, index) => {
-    return `[S${index + 1}] ${chunk.title} (${chunk.url})\n${chunk.content}`;
+    const verified = chunk.verifiedAt
+      ? `, last verified ${chunk.verifiedAt}${chunk.stale ? ", may be outdated" : ""}`
+      : "";
+    return `[S${index + 1}] ${chunk.title} (${chunk.url}${verified})\n${chunk.content}`;
   });
 
   return [
     "Context sources:",
     blocks.join("\n\n"),
-    "Use [S#] citations tied to the sources above."
-  ].join("\n\n");
+    "Use [S#] citations tied to the sources above.",
+    chunks.some((chunk) => chunk.stale)
+      ? "Sources marked \"may be outdated\" are past their review date: when you rely on them for rules, prices or schedules, tell the user to confirm with the official site."
+      : ""
+  ]
+    .filter(Boolean)
+    .join("\n\n");
 }
 
 function formatInternalNotes(chunks: ReturnType<typeof retrieve>) {
@@ -113,150 +256,163 @@ function formatInternalNotes(chunks: ReturnType<typeof retrieve>) {
   ].join("\n\n");
 }
 
-type ItineraryDay = {
-  day: number;
-  theme?: string;
-  morning: string[];
-  afternoon: string[];
-  evening: string[];
-};
+function finalizeAnswer(
+  body: ChatBody,
+  text: string,
+  webSources: ReturnType<typeof retrieve>,
+  grounding: GroundingStatus
+): Answer | null {
+  let finalText = text.trim();
+  if (!finalText) return null;
 
-type Itinerary = {
-  title: string;
-  days: ItineraryDay[];
-  transportNotes: string[];
-  tips: Array<{ label: string; details: string[] }>;
-  sources: string[];
-};
+  const language = resolveLanguage(body.language);
 
-function extractJson(text: string) {
-  const trimmed = text.trim();
-  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
-  const candidate = fenced ? fenced[1] : trimmed;
-  const braceMatch = candidate.match(/\{[\s\S]*\}/);
-  if (!braceMatch) return null;
-  const raw = braceMatch[0];
-  try {
-    return JSON.parse(raw);
-  } catch {
-    const repaired = raw
-      .replace(/[“”]/g, "\"")
-      .replace(/[’]/g, "'")
-      .replace(/,\s*([}\]])/g, "$1");
-    try {
-      return JSON.parse(repaired);
-    } catch {
-      return null;
+  let itinerary: Itinerary | undefined;
+
+  if (body.mode === "itinerary") {
+    const sourceTokens = webSources.length > 0
+      ? webSources.map((_, index) => `S${index + 1}`)
+      : ["none"];
+    const parsed = parseItinerary(finalText, sourceTokens);
+    const validated = parsed
+      ? validateItinerary(parsed.itinerary, {
+          days: tripDays(resolveStops(body)),
+          sources: sourceTokens
+        })
+      : null;
+
+    if (parsed && validated) {
+      itinerary = validated;
+      if (parsed.format === "json") {
+        finalText = itineraryToMarkdown(validated, ITINERARY_LABELS[language]);
+      }
+    } else if (parsed?.format === "json") {
+      const days = String(tripDays(resolveStops(body)));
+      finalText = `${ITINERARY_LABELS[language].incomplete.replace("{days}", days)}\n\nSources: none`;
     }
   }
-}
 
-function coerceStringArray(value: unknown): string[] {
-  if (!value) return [];
-  if (Array.isArray(value)) {
-    return value.map((item) => String(item)).filter((item) => item.trim().length > 0);
+  if (!/\bSources:\s*/i.test(finalText)) {
+    const fallbackSources =
+      webSources.length > 0
+        ? webSources.map((_, index) => `[S${index + 1}]`).join(" ")
+        : "none";
+    finalText = `${finalText}\n\nSources: ${fallbackSources}`;
   }
-  return [String(value)].filter((item) => item.trim().length > 0);
-}
-
-function normalizeItinerary(raw: unknown, fallbackSources: string[]): Itinerary | null {
-  if (!raw || typeof raw !== "object") return null;
-  const obj = raw as Record<string, unknown>;
-  const daysRaw = Array.isArray(obj.days) ? obj.days : [];
-
-  const days: ItineraryDay[] = daysRaw.map((dayItem, index) => {
-    const dayObj = (dayItem ?? {}) as Record<string, unknown>;
-    const dayNumber = Number(dayObj.day ?? index + 1);
-    return {
-      day: Number.isFinite(dayNumber) ? dayNumber : index + 1,
-      theme: dayObj.theme ? String(dayObj.theme) : undefined,
-      morning: coerceStringArray(dayObj.morning),
-      afternoon: coerceStringArray(dayObj.afternoon),
-      evening: coerceStringArray(dayObj.evening)
-    };
-  });
-
-  if (days.length === 0) return null;
-
-  const title = obj.title ? String(obj.title) : "Itinerary";
-  const transportNotes = coerceStringArray(obj.transportNotes);
-  const tipsRaw = Array.isArray(obj.tips) ? obj.tips : [];
-  const tips = tipsRaw.map((tip) => {
-    const tipObj = (tip ?? {}) as Record<string, unknown>;
-    return {
-      label: tipObj.label ? String(tipObj.label) : "Tip",
-      details: coerceStringArray(tipObj.details)
-    };
-  });
-  const sources = coerceStringArray(obj.sources);
-  const normalizedSources = sources.length > 0 ? sources : fallbackSources;
 
+  const verified = verifyCitations(finalText, webSources);
+  const banner = grounding === "hedged" ? unverifiedBanner(language) : "";
   return {
-    title,
-    days,
-    transportNotes,
-    tips,
-    sources: normalizedSources
+    text: `${banner}${verified.text}`,
+    itinerary:
+      itinerary && mapItineraryText(itinerary, (value) => stripCitations(value, webSources.length)),
+    citations: verified.report,
+    grounding
   };
 }
 
-function jsonToMarkdown(raw: unknown, fallbackSources: string[]) {
-  const itinerary = normalizeItinerary(raw, fallbackSources);
-  if (!itinerary) return null;
-
-  const header = `### ${itinerary.title}`;
-  const tableHeader = "| Day | Morning | Afternoon | Evening |\n| --- | --- | --- | --- |";
-  const rows = itinerary.days.map((day) => {
-    const dayLabel = `Day ${day.day}${day.theme ? ` — ${day.theme}` : ""}`;
-    const formatCell = (items: string[]) =>
-      items.length === 0 ? "—" : items.map((item) => `• ${item}`).join("<br>");
-    return `| ${dayLabel} | ${formatCell(day.morning)} | ${formatCell(day.afternoon)} | ${formatCell(day.evening)} |`;
-  });
+function encodeEvent(event: StreamEvent) {
+  return encoder.encode(`${JSON.stringify(event)}\n`);
+}
 
-  const sections: string[] = [];
-  if (itinerary.transportNotes.length > 0) {
-    sections.push(
-      [
-        "**Transport notes**",
-        ...itinerary.transportNotes.map((note) => `- ${note}`)
-      ].join("\n")
-    );
+function parseStreamLine(line: string) {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("data:")) return "";
+  const payload = trimmed.slice(5).trim();
+  if (!payload || payload === "[DONE]") return "";
+  try {
+    const data = JSON.parse(payload);
+    const delta = data?.choices?.[0]?.delta?.content;
+    return typeof delta === "string" ? delta : "";
+  } catch {
+    return "";
   }
+}
 
-  if (itinerary.tips.length > 0) {
-    const tipHeader = "| Tip | Details |\n| --- | --- |";
-    const tipRows = itinerary.tips.map((tip) => {
-      const detail = tip.details.length > 0
-        ? tip.details.map((item) => `• ${item}`).join("<br>")
-        : "—";
-      return `| ${tip.label} | ${detail} |`;
-    });
-    sections.push(["**Practical tips**", tipHeader, ...tipRows].join("\n"));
+async function* readCompletionDeltas(body: ReadableStream<Uint8Array>) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) {
+      const delta = parseStreamLine(line);
+      if (delta) yield delta;
+    }
   }
 
-  const sources = itinerary.sources.length > 0
-    ? itinerary.sources
-    : fallbackSources;
+  const delta = parseStreamLine(buffer + decoder.decode());
+  if (delta) yield delta;
+}
 
-  const sourcesLine = sources.includes("none")
-    ? "Sources: none"
-    : `Sources: ${sources.map((source) => `[${source}]`).join(" ")}`;
+function streamEvents(
+  produce: (send: (event: StreamEvent) => void) => Promise<void>
+) {
+  // Set once the client disconnects: enqueue then throws, which also stops
+  // `produce`, and there is nobody left to report an error to.
+  let closed = false;
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: StreamEvent) => {
+        if (closed) throw new Error("Client disconnected.");
+        try {
+          controller.enqueue(encodeEvent(event));
+        } catch (error) {
+          closed = true;
+          throw error;
+        }
+      };
+      try {
+        await produce(send);
+      } catch {
+        if (!closed) {
+          try {
+            send({ type: "error", error: "Upstream stream interrupted." });
+          } catch {
+            // The client went away between the failure and this event.
+          }
+        }
+      }
+      if (!closed) {
+        try {
+          controller.close();
+        } catch {
+          // Cancelled concurrently; the stream is already finished.
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
 
-  return [header, "", tableHeader, ...rows, "", ...sections, "", sourcesLine]
-    .filter((part) => part !== "")
-    .join("\n");
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform"
+    }
+  });
 }
 
 export async function POST(req: Request) {
-  const body = (await req.json()) as ChatBody;
+  const limit = await rateLimit(req, "chat");
+  if (!limit.allowed) {
+    return tooManyRequests(limit.retryAfterSeconds);
+  }
+
+  const parsed = await readJsonBody<unknown>(req, MAX_BODY_BYTES.chat);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: parsed.status });
+  }
 
-  const baseUrl = process.env.AI_BASE_URL;
-  const apiKey = process.env.AI_API_KEY;
-  const model = process.env.AI_MODEL;
-  const httpReferer = process.env.AI_HTTP_REFERER;
-  const appTitle = process.env.AI_APP_TITLE;
+  const provider = resolveProvider();
 
-  if (!baseUrl || !apiKey || !model) {
+  if (!provider) {
     return NextResponse.json(
       {
         error:
@@ -266,45 +422,90 @@ export async function POST(req: Request) {
     );
   }
 
-  if (!body?.mode) {
-    return NextResponse.json(
-      { error: "Invalid request." },
-      { status: 400 }
-    );
+  const validated = validateChatBody(parsed.body);
+  if (!validated.ok) {
+    return invalidRequest(validated.errors);
   }
+  const body = validated.value;
 
-  if (body.mode === "chat" && (!body.messages || body.messages.length === 0)) {
-    return NextResponse.json(
-      { error: "Chat messages are required." },
-      { status: 400 }
-    );
+  const safeHistory = (body.messages ?? []).slice(-MAX_HISTORY);
+
+  let webSources: ReturnType<typeof retrieve>;
+  let kbSources: ReturnType<typeof retrieve>;
+
+  if (body.mode === "chat") {
+    const lastMessage = body.messages?.[body.messages.length - 1]?.content ?? "";
+    const query = rewriteQuery(safeHistory) || lastMessage;
+    if (query !== lastMessage) {
+      // The text is what the user typed, so it is only logged when debugging.
+      console.info(
+        process.env.DEBUG_RETRIEVAL === "1"
+          ? `Rewrote retrieval query: ${JSON.stringify(lastMessage)} -> ${JSON.stringify(query)}`
+          : `Rewrote retrieval query (${lastMessage.length} -> ${query.length} chars)`
+      );
+    }
+    const boost = { cities: detectCities(query) };
+    webSources = retrieve(query, 4, { includeKb: false, boost });
+    kbSources = retrieve(query, 3, { includeWeb: false, boost });
+  } else {
+    ({ webSources, kbSources } = retrieveItinerarySources(body));
   }
 
-  const query =
-    body.mode === "chat"
-      ? body.messages?.[body.messages.length - 1]?.content ?? ""
-      : `${body.city ?? ""} ${body.interests ?? ""} itinerary`;
+  const language = resolveLanguage(body.language);
+  const grounding = groundingStatus(resolveGroundingPolicy(), webSources);
+
+  if (grounding === "refused") {
+    const text = refusalText(language, officialSources());
+    if (body.stream) {
+      return streamEvents(async (send) => {
+        send({ type: "sources", sources: [], grounding });
+        send({ type: "done", text, sources: [], grounding });
+      });
+    }
+    return NextResponse.json({ text, sources: [], grounding });
+  }
 
-  const webSources = retrieve(query, 4, { includeKb: false });
-  const kbSources = retrieve(query, 3, { includeWeb: false });
-  const sourceTokens = webSources.length > 0
-    ? webSources.map((_, index) => `S${index + 1}`)
-    : ["none"];
+  const sources: SourceLink[] = webSources.map((item, index) => ({
+    id: `S${index + 1}`,
+    title: item.title,
+    url: chunkUrl(item),
+    verifiedAt: item.verifiedAt,
+    stale: item.stale
+  }));
   const cacheKey = buildCacheKey(
     body,
     [...webSources, ...kbSources].map((item) => item.id)
   );
-  const cached = responseCache.get(cacheKey);
+  const cached = await cacheGet<CachedAnswer>(cacheKey);
+
+  if (cached) {
+    if (body.stream) {
+      return streamEvents(async (send) => {
+        send({ type: "sources", sources: cached.sources, grounding: cached.grounding });
+        send({
+          type: "done",
+          text: cached.text,
+          itinerary: cached.itinerary,
+          citations: cached.citations,
+          grounding: cached.grounding,
+          model: cached.model,
+          sources: cached.sources
+        });
+      });
+    }
 
-  if (cached && cached.expires > Date.now()) {
     return NextResponse.json({
       text: cached.text,
+      itinerary: cached.itinerary,
+      citations: cached.citations,
+      grounding: cached.grounding,
+      model: cached.model,
       sources: cached.sources
     });
   }
 
-  const messages: Message[] = [
-    { role: "system", content: baseSystemPrompt() }
+  const messages: ChatMessage[] = [
+    { role: "system", content: baseSystemPrompt(language) }
   ];
 
   const sourcesMessage = formatSources(webSources);
@@ -315,12 +516,15 @@ export async function POST(req: Request) {
   if (notesMessage) {
     messages.push({ role: "system", content: notesMessage });
   }
+  if (grounding === "hedged") {
+    messages.push({
+      role: "system",
+      content:
+        "No verified sources matched this request. Answer cautiously from general knowledge, avoid specific prices, schedules and addresses, and end with \"Sources: none\"."
+    });
+  }
 
   if (body.mode === "chat") {
-    const safeHistory = (body.messages ?? [])
-      .filter((message) => message.role === "user" || message.role === "assistant")
-      .slice(-MAX_HISTORY);
-
     messages.push(...safeHistory);
   } else {
     messages.push({
@@ -329,28 +533,17 @@ export async function POST(req: Request) {
     });
   }
 
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    Authorization: `Bearer ${apiKey}`
-  };
-
-  if (httpReferer) {
-    headers["HTTP-Referer"] = httpReferer;
-  }
-
-  if (appTitle) {
-    headers["X-Title"] = appTitle;
-  }
-
-  const response = await fetch(buildUrl(baseUrl), {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: body.mode === "chat" ? 0.4 : 0.6,
-      max_tokens: body.mode === "chat" ? MAX_TOKENS.chat : MAX_TOKENS.itinerary
-    })
+  const maxTokens = body.mode === "chat"
+    ? MAX_TOKENS.chat
+    : resolveStops(body).length > 1
+      ? MAX_TOKENS.multiCity
+      : MAX_TOKENS.itinerary;
+
+  const { response, model } = await provider.complete({
+    messages,
+    temperature: body.mode === "chat" ? 0.4 : 0.6,
+    maxTokens,
+    stream: Boolean(body.stream)
   });
 
   if (!response.ok) {
@@ -361,45 +554,47 @@ export async function POST(req: Request) {
     );
   }
 
+  const cacheAnswer = (answer: Answer) =>
+    cacheSet(cacheKey, { ...answer, model, sources }, CACHE_TTL_MS);
+
+  if (body.stream) {
+    const upstream = response.body;
+    return streamEvents(async (send) => {
+      send({ type: "sources", sources, grounding });
+
+      let assembled = "";
+      if (upstream) {
+        for await (const delta of readCompletionDeltas(upstream)) {
+          assembled += delta;
+          send({ type: "delta", text: delta });
+        }
+      }
+
+      const answer = finalizeAnswer(body, assembled, webSources, grounding);
+      if (!answer) {
+        send({ type: "error", error: "Empty response from model." });
+        return;
+      }
+
+      await cacheAnswer(answer);
+      send({ type: "done", ...answer, model, sources });
+    });
+  }
+
   const data = await response.json();
-  const text = data?.choices?.[0]?.message?.content?.trim();
+  const text = data?.choices?.[0]?.message?.content;
+  const answer = typeof text === "string"
+    ? finalizeAnswer(body, text, webSources, grounding)
+    : null;
 
-  if (!text) {
+  if (!answer) {
     return NextResponse.json(
       { error: "Empty response from model." },
       { status: 502 }
     );
   }
 
-  let finalText = text;
-
-  if (body.mode === "itinerary") {
-    const parsed = extractJson(finalText);
-    const converted = parsed ? jsonToMarkdown(parsed, sourceTokens) : null;
-    if (converted) {
-      finalText = converted;
-    }
-  }
-
-  if (!/\bSources:\s*/i.test(finalText)) {
-    const fallbackSources =
-      webSources.length > 0
-        ? webSources.map((_, index) => `[S${index + 1}]`).join(" ")
-        : "none";
-    finalText = `${finalText}\n\nSources: ${fallbackSources}`;
-  }
-
-  const sources = webSources.map((item, index) => ({
-    id: `S${index + 1}`,
-    title: item.title,
-    url: item.url
-  }));
-
-  responseCache.set(cacheKey, {
-    text: finalText,
-    expires: Date.now() + CACHE_TTL_MS,
-    sources
-  });
+  await cacheAnswer(answer);
 
-  return NextResponse.json({ text: finalText, sources });
+  return NextResponse.json({ ...answer, model, sources });
 }
@@ -1,83 +1,63 @@
-import { sql } from "@vercel/postgres";
 import { randomUUID } from "node:crypto";
 import { NextResponse } from "next/server";
-
-type FeedbackBody = {
-  messageId?: string;
-  rating?: 1 | -1;
-  mode?: string;
-  question?: string;
-  answer?: string;
-  sources?: Array<{ id: string; title: string; url: string }>;
-};
-
-type FeedbackRecord = {
-  id: string;
-  messageId: string | null;
-  rating: 1 | -1;
-  mode: string | null;
-  question: string | null;
-  answer: string | null;
-  sources: Array<{ id: string; title: string; url: string }>;
-  userAgent: string | null;
-};
-
-const memoryStore: FeedbackRecord[] = [];
+import { feedbackStorage, saveFeedback } from "../../../lib/feedback";
+import {
+  invalidRequest,
+  MAX_BODY_BYTES,
+  readJsonBody,
+  schemaNotReady,
+  tooManyRequests
+} from "../../../lib/http";
+import { isSchemaBehind } from "../../../lib/migrations";
+import { rateLimit } from "../../../lib/ratelimit";
+import { validateFeedbackBody } from "../../../lib/validation";
 
 export async function POST(req: Request) {
-  const body = (await req.json()) as FeedbackBody;
-
-  if (!body || (body.rating !== 1 && body.rating !== -1)) {
-    return NextResponse.json({ error: "Invalid feedback." }, { status: 400 });
+  const limit = await rateLimit(req, "feedback");
+  if (!limit.allowed) {
+    return tooManyRequests(limit.retryAfterSeconds);
   }
 
-  const feedback = {
-    id: randomUUID(),
-    messageId: body.messageId ?? null,
-    rating: body.rating,
-    mode: body.mode ?? null,
-    question: body.question ?? null,
-    answer: body.answer ?? null,
-    sources: body.sources ?? [],
-    userAgent: req.headers.get("user-agent") ?? null
-  };
+  const parsed = await readJsonBody<unknown>(req, MAX_BODY_BYTES.feedback);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: parsed.status });
+  }
 
-  if (!process.env.POSTGRES_URL) {
-    memoryStore.push(feedback);
-    return NextResponse.json({ ok: true, storage: "memory" });
+  const validated = validateFeedbackBody(parsed.body);
+  if (!validated.ok) {
+    return invalidRequest(validated.errors);
   }
+  const body = validated.value;
 
   try {
-    await sql`
-      CREATE TABLE IF NOT EXISTS feedback (
-        id uuid primary key,
-        created_at timestamptz default now(),
-        message_id text,
-        rating int not null,
-        mode text,
-        question text,
-        answer text,
-        sources jsonb,
-        user_agent text
-      );
-    `;
+    const { updated, rejected, editToken } = await saveFeedback(
+      {
+        id: randomUUID(),
+        createdAt: new Date().toISOString(),
+        messageId: body.messageId ?? null,
+        rating: body.rating,
+        mode: body.mode ?? null,
+        question: body.question ?? null,
+        answer: body.answer ?? null,
+        sources: body.sources ?? [],
+        category: body.category ?? null,
+        comment: body.comment?.trim() || null,
+        userAgent: req.headers.get("user-agent") ?? null,
+        updatedAt: null
+      },
+      body.editToken ?? null
+    );
 
-    await sql`
-      INSERT INTO feedback (id, message_id, rating, mode, question, answer, sources, user_agent)
-      VALUES (
-        ${feedback.id},
-        ${feedback.messageId},
-        ${feedback.rating},
-        ${feedback.mode},
-        ${feedback.question},
-        ${feedback.answer},
-        ${JSON.stringify(feedback.sources)},
-        ${feedback.userAgent}
+    if (rejected) {
+      return NextResponse.json(
+        { error: "Feedback for this message can no longer be changed." },
+        { status: 409 }
       );
-    `;
+    }
 
-    return NextResponse.json({ ok: true, storage: "postgres" });
+    return NextResponse.json({ ok: true, storage: feedbackStorage(), updated, editToken });
   } catch (error) {
+    if (isSchemaBehind(error)) return schemaNotReady();
     return NextResponse.json(
       { error: "Failed to store feedback." },
       { status: 500 }
@@ -1,14 +1,16 @@
 import type { Metadata } from "next";
 import { Space_Grotesk, IBM_Plex_Sans } from "next/font/google";
+import { cookies } from "next/headers";
+import { LANGUAGE_COOKIE, resolveLanguage } from "../lib/i18n";
 import "./globals.css";
 
 const spaceGrotesk = Space_Grotesk({
-  subsets: ["latin"],
+  subsets: ["latin", "latin-ext"],
   variable: "--font-display"
 });
 
 const ibmPlexSans = IBM_Plex_Sans({
-  subsets: ["latin"],
+  subsets: ["latin", "latin-ext", "cyrillic"],
   weight: ["300", "400", "500", "600"],
   variable: "--font-body"
 });
@@ -23,8 +25,10 @@ export default function RootLayout({
 }: {
   children: React.ReactNode;
 }) {
+  const lang = resolveLanguage(cookies().get(LANGUAGE_COOKIE)?.value);
+
   return (
-    <html lang="en">
+    <html lang={lang}>
       <body className={`${spaceGrotesk.variable} ${ibmPlexSans.variable}`}>
         {children}
       </body>
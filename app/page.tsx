@@ -1,10 +1,22 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeRaw from "rehype-raw";
 import rehypeSanitize, { defaultSchema } from "rehype-sanitize";
+import type { CitationReport } from "../lib/citations";
+import {
+  CITY_LABELS,
+  LANGUAGES,
+  LANGUAGE_COOKIE,
+  LANGUAGE_NAMES,
+  UI_STRINGS,
+  resolveLanguage,
+  type Language,
+  type UiStrings
+} from "../lib/i18n";
+import { CITIES, FEEDBACK_CATEGORIES, LIMITS, type FeedbackCategory } from "../lib/validation";
 
 type Role = "user" | "assistant";
 
@@ -12,6 +24,8 @@ type Source = {
   id: string;
   title: string;
   url: string;
+  verifiedAt?: string | null;
+  stale?: boolean;
 };
 
 type Message = {
@@ -19,17 +33,31 @@ type Message = {
   role: Role;
   content: string;
   sources?: Source[];
+  citations?: CitationReport;
 };
 
 type Mode = "chat" | "itinerary";
 
-const cities = [
-  "Tashkent",
-  "Samarkand",
-  "Bukhara",
-  "Khiva",
-  "Fergana Valley"
-];
+type FeedbackStatus = "sent" | "error" | "sending";
+
+type FeedbackInput = {
+  rating: 1 | -1;
+  category?: FeedbackCategory;
+  comment?: string;
+};
+
+type TripStop = {
+  city: string;
+  nights: number;
+};
+
+type StreamEvent =
+  | { type: "sources"; sources: Source[] }
+  | { type: "delta"; text: string }
+  | { type: "done"; text: string; sources: Source[]; citations?: CitationReport }
+  | { type: "error"; error: string };
+
+const maxHistory = 10;
 
 const sanitizeSchema = {
   ...defaultSchema,
@@ -43,7 +71,8 @@ const sanitizeSchema = {
       "tr",
       "th",
       "td",
-      "del"
+      "del",
+      "mark"
     ])
   ),
   attributes: {
@@ -54,20 +83,150 @@ const sanitizeSchema = {
       "rel"
     ],
     th: ["align"],
-    td: ["align"]
+    td: ["align"],
+    mark: ["title", "dataSupport"]
   }
 };
 
+const categoryLabels: Record<FeedbackCategory, keyof UiStrings> = {
+  wrong_info: "categoryWrongInfo",
+  outdated: "categoryOutdated",
+  missing_source: "categoryMissingSource",
+  too_vague: "categoryTooVague",
+  wrong_language: "categoryWrongLanguage"
+};
+
+function SourceList({ t, sources }: { t: UiStrings; sources?: Source[] }) {
+  if (!sources || sources.length === 0) return null;
+
+  return (
+    <div className="sources-line">
+      {sources.map((source) => (
+        <div key={source.id}>
+          [{source.id}]{" "}
+          <a href={source.url} target="_blank" rel="noreferrer">
+            {source.title}
+          </a>
+          {source.verifiedAt && (
+            <span className={source.stale ? "source-stale" : undefined}>
+              {" · "}
+              {t.lastVerified.replace("{date}", source.verifiedAt)}
+              {source.stale && ` (${t.mayBeOutdated})`}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Rating is sent on the first click; "Not helpful" then opens the category
+// picker and comment box, and sending those updates the same feedback row.
+function FeedbackRow({
+  t,
+  status,
+  disabled,
+  onSubmit
+}: {
+  t: UiStrings;
+  status?: FeedbackStatus;
+  disabled?: boolean;
+  onSubmit: (feedback: FeedbackInput) => void;
+}) {
+  const [rating, setRating] = useState<1 | -1 | null>(null);
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<FeedbackCategory>();
+  const [comment, setComment] = useState("");
+  const busy = disabled || status === "sending";
+
+  function rate(value: 1 | -1) {
+    setRating(value);
+    setOpen(value === -1);
+    onSubmit({ rating: value, category, comment: comment.trim() || undefined });
+  }
+
+  function sendDetails() {
+    setOpen(false);
+    onSubmit({ rating: rating ?? -1, category, comment: comment.trim() || undefined });
+  }
+
+  return (
+    <div className="feedback-row">
+      <span className="helper">{t.helpfulPrompt}</span>
+      <div className="feedback-actions">
+        <button
+          className={`chip${rating === 1 ? " active" : ""}`}
+          type="button"
+          disabled={busy}
+          onClick={() => rate(1)}
+        >
+          {t.helpful}
+        </button>
+        <button
+          className={`chip${rating === -1 ? " active" : ""}`}
+          type="button"
+          disabled={busy}
+          onClick={() => rate(-1)}
+        >
+          {t.notHelpful}
+        </button>
+        {rating !== null && !open && (
+          <button className="chip" type="button" disabled={busy} onClick={() => setOpen(true)}>
+            {t.feedbackDetails}
+          </button>
+        )}
+      </div>
+      {status === "sent" && <span className="helper">{t.thanks}</span>}
+      {status === "error" && <span className="helper">{t.saveFailed}</span>}
+      {open && (
+        <div className="feedback-details">
+          <span className="helper">{t.feedbackCategoryPrompt}</span>
+          <div className="feedback-actions">
+            {FEEDBACK_CATEGORIES.map((item) => (
+              <button
+                key={item}
+                className={`chip${category === item ? " active" : ""}`}
+                type="button"
+                onClick={() => setCategory(category === item ? undefined : item)}
+              >
+                {t[categoryLabels[item]]}
+              </button>
+            ))}
+          </div>
+          <textarea
+            className="textarea"
+            rows={2}
+            maxLength={LIMITS.feedbackCommentLength}
+            placeholder={t.commentPlaceholder}
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+          />
+          <div>
+            <button className="chip" type="button" disabled={busy} onClick={sendDetails}>
+              {t.sendDetails}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function Home() {
+  const [language, setLanguage] = useState<Language>("en");
   const [mode, setMode] = useState<Mode>("chat");
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
   const [chatLoading, setChatLoading] = useState(false);
   const [chatError, setChatError] = useState<string | null>(null);
-  const [feedbackState, setFeedbackState] = useState<Record<string, "sent" | "error" | "sending">>({});
-
-  const [city, setCity] = useState(cities[0]);
-  const [days, setDays] = useState(3);
+  const [feedbackState, setFeedbackState] = useState<Record<string, FeedbackStatus>>({});
+  // Returned by the first rating of a message; later ratings send it back so
+  // the server lets this browser, and only this one, update that row.
+  const [feedbackTokens, setFeedbackTokens] = useState<Record<string, string>>({});
+
+  const [stops, setStops] = useState<TripStop[]>([{ city: CITIES[0], nights: 3 }]);
+  const [startCity, setStartCity] = useState("");
+  const [endCity, setEndCity] = useState("");
   const [style, setStyle] = useState("balanced");
   const [budget, setBudget] = useState("standard");
   const [interests, setInterests] = useState("");
@@ -75,9 +234,59 @@ export default function Home() {
   const [itineraryLoading, setItineraryLoading] = useState(false);
   const [itineraryError, setItineraryError] = useState<string | null>(null);
   const [itinerarySources, setItinerarySources] = useState<Source[]>([]);
+  const [itineraryCitations, setItineraryCitations] = useState<CitationReport>();
+  const [itineraryId, setItineraryId] = useState("");
+
+  const t = UI_STRINGS[language];
+  const cityLabels = CITY_LABELS[language];
+
+  useEffect(() => {
+    setLanguage(resolveLanguage(document.documentElement.lang));
+  }, []);
 
-  const placeholder =
-    "Ask about transport, hotels, safety, food, routes...";
+  function changeLanguage(next: Language) {
+    setLanguage(next);
+    document.documentElement.lang = next;
+    document.cookie = `${LANGUAGE_COOKIE}=${next}; path=/; max-age=31536000; samesite=lax`;
+  }
+
+  const days = stops.reduce((total, stop) => total + stop.nights, 0);
+  const itinerarySummary = `Itinerary request: route=${stops
+    .map((stop) => `${stop.city} (${stop.nights})`)
+    .join(" > ")}, start=${startCity || "first stop"}, end=${endCity || "last stop"}, days=${days}, pace=${style}, budget=${budget}, interests=${interests || "none"}`;
+
+  function updateStop(index: number, update: Partial<TripStop>) {
+    setStops((prev) =>
+      prev.map((stop, i) => (i === index ? { ...stop, ...update } : stop))
+    );
+  }
+
+  // The most nights a stop can take without the trip passing LIMITS.tripDays.
+  function maxNights(index: number) {
+    const others = stops.reduce((total, stop, i) => (i === index ? total : total + stop.nights), 0);
+    return Math.max(1, Math.min(LIMITS.nightsPerStop, LIMITS.tripDays - others));
+  }
+
+  function updateNights(index: number, value: string) {
+    const parsed = Math.round(Number(value));
+    // An emptied or half-typed field keeps the last valid value.
+    if (value.trim() === "" || !Number.isFinite(parsed)) return;
+    updateStop(index, { nights: Math.max(1, Math.min(maxNights(index), parsed)) });
+  }
+
+  function addStop() {
+    setStops((prev) => {
+      const total = prev.reduce((sum, stop) => sum + stop.nights, 0);
+      if (prev.length >= LIMITS.stops || total >= LIMITS.tripDays) return prev;
+      const used = new Set(prev.map((stop) => stop.city));
+      const next = CITIES.find((item) => !used.has(item)) ?? CITIES[0];
+      return [...prev, { city: next, nights: Math.min(2, LIMITS.tripDays - total) }];
+    });
+  }
+
+  function removeStop(index: number) {
+    setStops((prev) => prev.filter((_, i) => i !== index));
+  }
 
   function createId() {
     if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
@@ -93,11 +302,30 @@ export default function Home() {
       const token = `S${index + 1}`;
       const anchor = `<a href="${source.url}" target="_blank" rel="noreferrer">${token}</a>`;
       const regex = new RegExp(`\\[${token}\\]|\\b${token}\\b`, "g");
-      result = result.replace(regex, anchor);
+      result = result.replace(regex, () => anchor);
     });
     return result;
   }
 
+  function markWeakClaims(text: string, citations?: CitationReport) {
+    if (!citations) return text;
+    let result = text;
+    for (const item of citations.sentences) {
+      if (item.support === "supported") continue;
+      const notes = [item.support === "weak" ? t.weakClaim : t.unsupportedClaim];
+      if (item.unsupportedNumbers.length > 0) {
+        notes.push(`${t.uncheckedNumbers}: ${item.unsupportedNumbers.join(", ")}`);
+      }
+      const title = notes.join(". ").replace(/"/g, "&quot;");
+      // A replacer function, so "$&" or "$1" in the answer stays literal text.
+      result = result.replace(
+        item.sentence,
+        () => `<mark data-support="${item.support}" title="${title}">${item.sentence}</mark>`
+      );
+    }
+    return result;
+  }
+
   function normalizeSpacing(text: string) {
     const stripped = text
       .replace(/<p>\s*(?:&nbsp;|&#160;|&#32;|\u00A0|<br\s*\/?>|\s)*<\/p>/gi, "")
@@ -150,6 +378,56 @@ export default function Home() {
     return output.join("\n").trim();
   }
 
+  async function readChatStream(
+    res: Response,
+    onEvent: (event: StreamEvent) => void
+  ) {
+    if (!res.body) {
+      throw new Error(t.streamUnsupported);
+    }
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    const emit = (line: string) => {
+      const trimmed = line.trim();
+      if (!trimmed) return;
+      const event = JSON.parse(trimmed) as StreamEvent;
+      if (event.type === "error") {
+        throw new Error(event.error);
+      }
+      onEvent(event);
+    };
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(emit);
+    }
+
+    emit(buffer + decoder.decode());
+  }
+
+  async function readRequestError(res: Response) {
+    const err = await res.json().catch(() => ({}));
+    if (res.status === 429) {
+      const seconds = Number(res.headers.get("retry-after")) || Number(err.retryAfter) || 60;
+      return t.rateLimited.replace("{seconds}", String(seconds));
+    }
+    // 400s list every failing field; show them rather than a bare "Invalid request."
+    if (res.status === 400 && Array.isArray(err.errors) && err.errors.length > 0) {
+      const fields = err.errors
+        .map((item: { path?: string; message?: string }) => `${item.path}: ${item.message}`)
+        .join("; ");
+      return `${err.error || t.requestFailed} ${fields}`;
+    }
+    return err.error || t.requestFailed;
+  }
+
   function getPreviousUserQuestion(startIndex: number, list: Message[]) {
     for (let i = startIndex - 1; i >= 0; i -= 1) {
       if (list[i].role === "user") {
@@ -162,10 +440,10 @@ export default function Home() {
   async function sendFeedback(
     message: Message,
     index: number,
-    rating: 1 | -1,
+    feedback: FeedbackInput,
     questionOverride?: string
   ) {
-    if (feedbackState[message.id] === "sending" || feedbackState[message.id] === "sent") {
+    if (feedbackState[message.id] === "sending") {
       return;
     }
 
@@ -174,7 +452,8 @@ export default function Home() {
     try {
       const payload = {
         messageId: message.id,
-        rating,
+        editToken: feedbackTokens[message.id],
+        ...feedback,
         mode,
         question: questionOverride ?? getPreviousUserQuestion(index, messages),
         answer: message.content,
@@ -191,6 +470,10 @@ export default function Home() {
         throw new Error("Feedback failed");
       }
 
+      const data = await res.json();
+      if (typeof data.editToken === "string") {
+        setFeedbackTokens((prev) => ({ ...prev, [message.id]: data.editToken }));
+      }
       setFeedbackState((prev) => ({ ...prev, [message.id]: "sent" }));
     } catch {
       setFeedbackState((prev) => ({ ...prev, [message.id]: "error" }));
@@ -217,27 +500,52 @@ export default function Home() {
         body: JSON.stringify({
           mode: "chat",
           messages: nextMessages
+            .slice(-maxHistory)
+            .map(({ role, content }) => ({ role, content })),
+          language,
+          stream: true
         })
       });
 
       if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        throw new Error(err.error || "Request failed");
+        throw new Error(await readRequestError(res));
       }
 
-      const data = await res.json();
-      setMessages([
-        ...nextMessages,
-        {
-          id: createId(),
-          role: "assistant",
-          content: data.text,
-          sources: data.sources ?? []
+      const assistantId = createId();
+      const updateAssistant = (update: (message: Message) => Message) => {
+        setMessages((prev) =>
+          prev.map((item) => (item.id === assistantId ? update(item) : item))
+        );
+      };
+
+      await readChatStream(res, (event) => {
+        if (event.type === "sources") {
+          setMessages([
+            ...nextMessages,
+            {
+              id: assistantId,
+              role: "assistant",
+              content: "",
+              sources: event.sources
+            }
+          ]);
+        } else if (event.type === "delta") {
+          updateAssistant((item) => ({
+            ...item,
+            content: item.content + event.text
+          }));
+        } else if (event.type === "done") {
+          updateAssistant((item) => ({
+            ...item,
+            content: event.text,
+            sources: event.sources,
+            citations: event.citations
+          }));
         }
-      ]);
+      });
     } catch (error) {
       setChatError(
-        error instanceof Error ? error.message : "Unexpected error"
+        error instanceof Error ? error.message : t.unexpectedError
       );
     } finally {
       setChatLoading(false);
@@ -247,6 +555,8 @@ export default function Home() {
   async function generateItinerary() {
     setItineraryError(null);
     setItinerary("");
+    setItineraryCitations(undefined);
+    setItineraryId(createId());
     setItineraryLoading(true);
 
     try {
@@ -255,25 +565,41 @@ export default function Home() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           mode: "itinerary",
-          city,
+          stops,
+          startCity: startCity || undefined,
+          endCity: endCity || undefined,
           days,
           style,
           budget,
-          interests
+          interests,
+          language,
+          stream: true
         })
       });
 
       if (!res.ok) {
-        const err = await res.json().catch(() => ({}));
-        throw new Error(err.error || "Request failed");
+        throw new Error(await readRequestError(res));
       }
 
-      const data = await res.json();
-      setItinerary(data.text);
-      setItinerarySources(data.sources ?? []);
+      let draft = "";
+      await readChatStream(res, (event) => {
+        if (event.type === "sources") {
+          setItinerarySources(event.sources);
+        } else if (event.type === "delta") {
+          draft += event.text;
+          // Structured itineraries arrive as JSON; only preview markdown drafts.
+          if (!/^\s*(?:\{|```)/.test(draft)) {
+            setItinerary(draft);
+          }
+        } else if (event.type === "done") {
+          setItinerary(event.text);
+          setItinerarySources(event.sources);
+          setItineraryCitations(event.citations);
+        }
+      });
     } catch (error) {
       setItineraryError(
-        error instanceof Error ? error.message : "Unexpected error"
+        error instanceof Error ? error.message : t.unexpectedError
       );
     } finally {
       setItineraryLoading(false);
@@ -286,7 +612,7 @@ export default function Home() {
         <header className="header">
           <div className="brand">
             <h1>uzbektourist.ai</h1>
-            <p>Minimal travel assistant for Uzbekistan</p>
+            <p>{t.tagline}</p>
           </div>
           <div className="controls">
             <div className="tabs">
@@ -295,16 +621,29 @@ export default function Home() {
                 onClick={() => setMode("chat")}
                 type="button"
               >
-                Q&A
+                {t.tabChat}
               </button>
               <button
                 className={`tab ${mode === "itinerary" ? "active" : ""}`}
                 onClick={() => setMode("itinerary")}
                 type="button"
               >
-                Itinerary
+                {t.tabItinerary}
               </button>
             </div>
+            <div className="tabs" role="group" aria-label={t.language}>
+              {LANGUAGES.map((item) => (
+                <button
+                  key={item}
+                  className={`tab ${language === item ? "active" : ""}`}
+                  onClick={() => changeLanguage(item)}
+                  title={LANGUAGE_NAMES[item]}
+                  type="button"
+                >
+                  {item.toUpperCase()}
+                </button>
+              ))}
+            </div>
           </div>
         </header>
 
@@ -312,10 +651,7 @@ export default function Home() {
           <section className="card chat-window">
             <div className="messages">
               {messages.length === 0 ? (
-                <p className="helper">
-                  Ask about intercity transport, visas, lodging, must-see spots,
-                  safety.
-                </p>
+                <p className="helper">{t.chatEmpty}</p>
               ) : (
                 messages.map((message, index) => (
                   <div
@@ -332,37 +668,20 @@ export default function Home() {
                       }}
                     >
                       {normalizeSpacing(
-                        applySourceLinks(message.content, message.sources)
+                        applySourceLinks(
+                          markWeakClaims(message.content, message.citations),
+                          message.sources
+                        )
                       )}
                     </ReactMarkdown>
-                    {message.role === "assistant" && (
-                      <div className="feedback-row">
-                        <span className="helper">Was this helpful?</span>
-                        <div className="feedback-actions">
-                          <button
-                            className="chip"
-                            type="button"
-                            disabled={feedbackState[message.id] === "sending" || feedbackState[message.id] === "sent"}
-                            onClick={() => void sendFeedback(message, index, 1)}
-                          >
-                            Helpful
-                          </button>
-                          <button
-                            className="chip"
-                            type="button"
-                            disabled={feedbackState[message.id] === "sending" || feedbackState[message.id] === "sent"}
-                            onClick={() => void sendFeedback(message, index, -1)}
-                          >
-                            Not helpful
-                          </button>
-                        </div>
-                        {feedbackState[message.id] === "sent" && (
-                          <span className="helper">Thanks!</span>
-                        )}
-                        {feedbackState[message.id] === "error" && (
-                          <span className="helper">Could not save.</span>
-                        )}
-                      </div>
+                    {message.role === "assistant" && <SourceList t={t} sources={message.sources} />}
+                    {message.role === "assistant" &&
+                      !(chatLoading && index === messages.length - 1) && (
+                      <FeedbackRow
+                        t={t}
+                        status={feedbackState[message.id]}
+                        onSubmit={(feedback) => void sendFeedback(message, index, feedback)}
+                      />
                     )}
                   </div>
                 ))
@@ -373,10 +692,10 @@ export default function Home() {
 
             <div className="form-row">
               <div className="stacked-field">
-                <span className="helper">Ask a question</span>
+                <span className="helper">{t.askLabel}</span>
                 <input
                   className="input"
-                  placeholder={placeholder}
+                  placeholder={t.chatPlaceholder}
                   value={input}
                   onChange={(event) => setInput(event.target.value)}
                   onKeyDown={(event) => {
@@ -388,97 +707,150 @@ export default function Home() {
                 />
               </div>
               <div className="stacked-field">
-                <span className="helper">Action</span>
+                <span className="helper">{t.actionLabel}</span>
                 <button
                   className="button"
                   onClick={() => void sendChat()}
                   disabled={chatLoading}
                   type="button"
                 >
-                  {chatLoading ? "Sending..." : "Send"}
+                  {chatLoading ? t.sending : t.send}
                 </button>
               </div>
             </div>
 
             <p className="helper">
-              Tips are not official. Always confirm hours and prices.
+              {t.disclaimer}
             </p>
           </section>
         ) : (
           <section className="card">
+            <div className="stacked-field">
+              <span className="helper">
+                {t.route} · {days} {days === 1 ? t.day : t.days} {t.total}
+              </span>
+              <div className="stops">
+                {stops.map((stop, index) => (
+                  <div className="stop-row" key={index}>
+                    <span className="stop-index">{index + 1}</span>
+                    <select
+                      className="select"
+                      value={stop.city}
+                      onChange={(event) => updateStop(index, { city: event.target.value })}
+                    >
+                      {CITIES.map((item) => (
+                        <option key={item} value={item}>
+                          {cityLabels[item] ?? item}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="input nights"
+                      type="number"
+                      min={1}
+                      max={maxNights(index)}
+                      aria-label={`${t.nightsIn} ${cityLabels[stop.city] ?? stop.city}`}
+                      value={stop.nights}
+                      onChange={(event) => updateNights(index, event.target.value)}
+                    />
+                    <span className="helper">{stop.nights === 1 ? t.night : t.nights}</span>
+                    <button
+                      className="chip"
+                      type="button"
+                      disabled={stops.length === 1}
+                      onClick={() => removeStop(index)}
+                    >
+                      {t.remove}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div>
+                <button
+                  className="chip"
+                  type="button"
+                  disabled={stops.length >= LIMITS.stops || days >= LIMITS.tripDays}
+                  onClick={addStop}
+                >
+                  {t.addCity}
+                </button>
+              </div>
+            </div>
+
             <div className="form-row roomy">
               <div className="stacked-field">
-                <span className="helper">City</span>
+                <span className="helper">{t.startIn}</span>
                 <select
                   className="select"
-                  value={city}
-                  onChange={(event) => setCity(event.target.value)}
+                  value={startCity}
+                  onChange={(event) => setStartCity(event.target.value)}
                 >
-                  {cities.map((item) => (
+                  <option value="">{t.firstStop}</option>
+                  {CITIES.map((item) => (
                     <option key={item} value={item}>
-                      {item}
+                      {cityLabels[item] ?? item}
                     </option>
                   ))}
                 </select>
               </div>
               <div className="stacked-field">
-                <span className="helper">Days</span>
-                <input
-                  className="input"
-                  type="number"
-                  min={1}
-                  max={10}
-                  value={days}
-                  onChange={(event) =>
-                    setDays(Math.max(1, Math.min(10, Number(event.target.value))))
-                  }
-                />
+                <span className="helper">{t.endIn}</span>
+                <select
+                  className="select"
+                  value={endCity}
+                  onChange={(event) => setEndCity(event.target.value)}
+                >
+                  <option value="">{t.lastStop}</option>
+                  {CITIES.map((item) => (
+                    <option key={item} value={item}>
+                      {cityLabels[item] ?? item}
+                    </option>
+                  ))}
+                </select>
               </div>
               <div className="stacked-field">
-                <span className="helper">Pace</span>
+                <span className="helper">{t.pace}</span>
                 <select
                   className="select"
                   value={style}
                   onChange={(event) => setStyle(event.target.value)}
                 >
                   <option value="relaxed">
-                    Relaxed
+                    {t.paceRelaxed}
                   </option>
                   <option value="balanced">
-                    Balanced
+                    {t.paceBalanced}
                   </option>
                   <option value="packed">
-                    Packed
+                    {t.pacePacked}
                   </option>
                 </select>
               </div>
               <div className="stacked-field">
-                <span className="helper">Budget</span>
+                <span className="helper">{t.budget}</span>
                 <select
                   className="select"
                   value={budget}
                   onChange={(event) => setBudget(event.target.value)}
                 >
                   <option value="budget">
-                    Budget
+                    {t.budgetBudget}
                   </option>
                   <option value="standard">
-                    Standard
+                    {t.budgetStandard}
                   </option>
                   <option value="comfort">
-                    Comfort
+                    {t.budgetComfort}
                   </option>
                 </select>
               </div>
             </div>
 
             <div className="stacked-field">
-              <span className="helper">Interests and constraints</span>
+              <span className="helper">{t.interests}</span>
               <textarea
                 className="textarea"
-                placeholder={
-                  "e.g., history, architecture, halal food, no night trains"
-                }
+                placeholder={t.interestsPlaceholder}
                 value={interests}
                 onChange={(event) => setInterests(event.target.value)}
               />
@@ -496,20 +868,21 @@ export default function Home() {
                 {itineraryLoading ? (
                   <>
                     <span className="spinner" aria-hidden="true" />
-                    Generating...
+                    {t.generating}
                   </>
                 ) : (
-                  "Generate itinerary"
+                  t.generate
                 )}
               </button>
               <button
                 className="button secondary"
                 onClick={() => {
                   setItinerary("");
+                  setItineraryCitations(undefined);
                 }}
                 type="button"
               >
-                Clear
+                {t.clear}
               </button>
             </div>
             {itinerary ? (
@@ -523,65 +896,33 @@ export default function Home() {
                     )
                   }}
                 >
-                  {normalizeSpacing(applySourceLinks(itinerary, itinerarySources))}
-                </ReactMarkdown>
-                <div className="feedback-row">
-                  <span className="helper">Was this helpful?</span>
-                  <div className="feedback-actions">
-                    <button
-                      className="chip"
-                      type="button"
-                      disabled={
-                        feedbackState["itinerary"] === "sending" ||
-                        feedbackState["itinerary"] === "sent"
-                      }
-                      onClick={() =>
-                        void sendFeedback(
-                          {
-                            id: "itinerary",
-                            role: "assistant",
-                            content: itinerary,
-                            sources: itinerarySources
-                          },
-                          -1,
-                          1,
-                          `Itinerary request: city=${city}, days=${days}, pace=${style}, budget=${budget}, interests=${interests || "none"}`
-                        )
-                      }
-                    >
-                      Helpful
-                    </button>
-                    <button
-                      className="chip"
-                      type="button"
-                      disabled={
-                        feedbackState["itinerary"] === "sending" ||
-                        feedbackState["itinerary"] === "sent"
-                      }
-                      onClick={() =>
-                        void sendFeedback(
-                          {
-                            id: "itinerary",
-                            role: "assistant",
-                            content: itinerary,
-                            sources: itinerarySources
-                          },
-                          -1,
-                          -1,
-                          `Itinerary request: city=${city}, days=${days}, pace=${style}, budget=${budget}, interests=${interests || "none"}`
-                        )
-                      }
-                    >
-                      Not helpful
-                    </button>
-                  </div>
-                  {feedbackState["itinerary"] === "sent" && (
-                    <span className="helper">Thanks!</span>
-                  )}
-                  {feedbackState["itinerary"] === "error" && (
-                    <span className="helper">Could not save.</span>
+                  {normalizeSpacing(
+                    applySourceLinks(
+                      markWeakClaims(itinerary, itineraryCitations),
+                      itinerarySources
+                    )
                   )}
-                </div>
+                </ReactMarkdown>
+                <SourceList t={t} sources={itinerarySources} />
+                <FeedbackRow
+                  key={itineraryId}
+                  t={t}
+                  status={feedbackState[itineraryId]}
+                  disabled={itineraryLoading}
+                  onSubmit={(feedback) =>
+                    void sendFeedback(
+                      {
+                        id: itineraryId,
+                        role: "assistant",
+                        content: itinerary,
+                        sources: itinerarySources
+                      },
+                      -1,
+                      feedback,
+                      itinerarySummary
+                    )
+                  }
+                />
               </div>
             ) : null}
           </section>
@@ -589,7 +930,7 @@ export default function Home() {
 
         <section className="footer">
           <span>
-            Built for travelers in Uzbekistan with ❤ by{" "}
+            {t.footer}{" "}
             <a href="https://github.com/sssplash6" target="_blank" rel="noreferrer">
               sant1x
             </a>
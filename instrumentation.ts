@@ -0,0 +1,28 @@
+// Runs once when a server instance starts: reports pending migrations up front
+// instead of on the first feedback or rate-limit query. With
+// MIGRATE_ON_START=1 it applies them instead; the advisory lock in
+// runMigrations keeps instances that start together from racing.
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs" || !process.env.POSTGRES_URL) return;
+
+  const { ensureSchema, loadMigrations, poolMigrationClient, runMigrations } = await import(
+    "./lib/migrations"
+  );
+  try {
+    if (process.env.MIGRATE_ON_START === "1") {
+      const { db } = await import("@vercel/postgres");
+      const client = await db.connect();
+      try {
+        const applied = await runMigrations(poolMigrationClient(client), loadMigrations());
+        for (const migration of applied) {
+          console.info(`Applied ${migration.file}`);
+        }
+      } finally {
+        client.release();
+      }
+    }
+    await ensureSchema();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+  }
+}
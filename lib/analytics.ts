@@ -0,0 +1,183 @@
+import { conceptOf } from "./embeddings";
+import type { FeedbackRating } from "./feedback";
+import { isPlaceToken, tokenize } from "./tokenizer";
+import type { FeedbackSource } from "./validation";
+
+export type RatingTally = {
+  key: string;
+  label: string;
+  helpful: number;
+  notHelpful: number;
+  total: number;
+  helpfulRatio: number;
+};
+
+export type RepeatedNegative = {
+  question: string;
+  count: number;
+  lastSeen: string;
+  sources: string[];
+};
+
+export type FeedbackSummary = {
+  total: number;
+  helpful: number;
+  notHelpful: number;
+  helpfulRatio: number | null;
+  bySource: RatingTally[];
+  byTopic: RatingTally[];
+  byCity: RatingTally[];
+  byCategory: RatingTally[];
+  repeatedNegatives: RepeatedNegative[];
+};
+
+// Topics are named groups of the embedding concepts, so "poezd" and
+// "Afrosiyob" both count towards transport.
+const TOPICS: Record<string, string[]> = {
+  visa: ["visa"],
+  transport: ["train", "flight", "taxi", "metro", "bus"],
+  prices: ["price"],
+  lodging: ["hotel"],
+  food: ["food"],
+  shopping: ["market"],
+  safety: ["safe"],
+  sights: ["mosque", "history"],
+  weather: ["weather"]
+};
+
+const topicByConcept = new Map<number, string>();
+for (const [topic, terms] of Object.entries(TOPICS)) {
+  for (const term of terms) {
+    const concept = conceptOf(term);
+    if (concept !== undefined) topicByConcept.set(concept, topic);
+  }
+}
+
+const MIN_REPEATED_NEGATIVES = 2;
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function feedbackTopics(question: string) {
+  const tokens = tokenize(question);
+  const topics = new Set<string>();
+  const cities = new Set<string>();
+
+  for (const token of tokens) {
+    if (isPlaceToken(token)) {
+      if (token !== "uzbekistan") cities.add(token);
+      continue;
+    }
+    const concept = conceptOf(token);
+    const topic = concept === undefined ? undefined : topicByConcept.get(concept);
+    if (topic) topics.add(topic);
+  }
+
+  return { topics: Array.from(topics), cities: Array.from(cities) };
+}
+
+// Only the sources the answer actually cited are credited or blamed; answers
+// without [S#] markers fall back to every source that was shown. Section links
+// (`url#anchor`, titled "Page › Section") count once per answer for their
+// page, however many of its sections were cited.
+function citedSources(record: FeedbackRating) {
+  const matched = record.sources.filter((source) => record.cited.includes(source.id));
+  const pages = new Map<string, FeedbackSource>();
+  for (const source of matched.length > 0 ? matched : record.sources) {
+    const url = source.url.split("#")[0];
+    if (!pages.has(url)) {
+      pages.set(url, { ...source, url, title: source.title.split(" › ")[0] });
+    }
+  }
+  return Array.from(pages.values());
+}
+
+function tally(map: Map<string, RatingTally>, key: string, label: string, rating: 1 | -1) {
+  const entry = map.get(key) ?? {
+    key,
+    label,
+    helpful: 0,
+    notHelpful: 0,
+    total: 0,
+    helpfulRatio: 0
+  };
+  if (rating === 1) entry.helpful += 1;
+  else entry.notHelpful += 1;
+  entry.total += 1;
+  entry.helpfulRatio = Math.round((entry.helpful / entry.total) * 100) / 100;
+  map.set(key, entry);
+}
+
+// Worst first: the content team works down the list.
+function ranked(map: Map<string, RatingTally>) {
+  return Array.from(map.values()).sort(
+    (a, b) => b.notHelpful - a.notHelpful || a.helpfulRatio - b.helpfulRatio || b.total - a.total
+  );
+}
+
+function questionKey(question: string) {
+  return Array.from(new Set(tokenize(question))).sort().join(" ");
+}
+
+export function summarizeFeedback(records: FeedbackRating[]): FeedbackSummary {
+  const bySource = new Map<string, RatingTally>();
+  const byTopic = new Map<string, RatingTally>();
+  const byCity = new Map<string, RatingTally>();
+  const byCategory = new Map<string, RatingTally>();
+  const negatives = new Map<string, RepeatedNegative>();
+  let helpful = 0;
+
+  for (const record of records) {
+    if (record.rating === 1) helpful += 1;
+
+    for (const source of citedSources(record)) {
+      tally(bySource, source.url, source.title, record.rating);
+    }
+
+    const { topics, cities } = feedbackTopics(record.question ?? "");
+    for (const topic of topics.length > 0 ? topics : ["other"]) {
+      tally(byTopic, topic, capitalize(topic), record.rating);
+    }
+    for (const city of cities) {
+      tally(byCity, city, capitalize(city), record.rating);
+    }
+    if (record.category) {
+      tally(byCategory, record.category, capitalize(record.category.replace(/_/g, " ")), record.rating);
+    }
+
+    const key = record.question ? questionKey(record.question) : "";
+    if (record.rating === -1 && key) {
+      const entry = negatives.get(key) ?? {
+        question: record.question ?? "",
+        count: 0,
+        lastSeen: record.createdAt,
+        sources: []
+      };
+      entry.count += 1;
+      if (record.createdAt >= entry.lastSeen) {
+        entry.lastSeen = record.createdAt;
+        entry.question = record.question ?? entry.question;
+      }
+      for (const source of citedSources(record)) {
+        if (!entry.sources.includes(source.url)) entry.sources.push(source.url);
+      }
+      negatives.set(key, entry);
+    }
+  }
+
+  return {
+    total: records.length,
+    helpful,
+    notHelpful: records.length - helpful,
+    helpfulRatio:
+      records.length > 0 ? Math.round((helpful / records.length) * 100) / 100 : null,
+    bySource: ranked(bySource),
+    byTopic: ranked(byTopic),
+    byCity: ranked(byCity),
+    byCategory: ranked(byCategory),
+    repeatedNegatives: Array.from(negatives.values())
+      .filter((entry) => entry.count >= MIN_REPEATED_NEGATIVES)
+      .sort((a, b) => b.count - a.count || b.lastSeen.localeCompare(a.lastSeen))
+  };
+}
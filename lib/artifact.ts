@@ -0,0 +1,135 @@
+import fs from "fs";
+import path from "path";
+import { EMBEDDING_MODEL, decodeVector, encodeVector } from "./embeddings";
+import { computeTfidfFromCounts } from "./retrievers";
+import type { IndexedChunk, RetrievalIndex } from "./rag";
+
+type SerializedChunk = {
+  id: string;
+  sourceId: string;
+  title: string;
+  url: string;
+  content: string;
+  city: string | null;
+  tags: string[];
+  verifiedAt: string | null;
+  section: string[];
+  anchor: string | null;
+  start: number;
+  end: number;
+  length: number;
+  termFreq: Record<string, number>;
+  embedding: string;
+};
+
+type IndexArtifact = {
+  version: number;
+  sourcesHash: string;
+  embeddingModel: string;
+  createdAt: string;
+  avgLength: number;
+  idf: Record<string, number>;
+  bm25Idf: Record<string, number>;
+  chunks: SerializedChunk[];
+};
+
+// Bump whenever chunking, tokenization or scoring inputs change so that
+// artifacts built by older code are rebuilt instead of trusted.
+export const INDEX_VERSION = 5;
+
+export function indexArtifactPath() {
+  return path.join(process.cwd(), "data", "index.json");
+}
+
+function toRecord(map: Map<string, number>) {
+  return Object.fromEntries(map.entries());
+}
+
+function toMap(record: Record<string, number>) {
+  return new Map(Object.entries(record ?? {}));
+}
+
+export function readIndexArtifact(sourcesHash: string): RetrievalIndex | null {
+  const filePath = indexArtifactPath();
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  try {
+    const artifact = JSON.parse(fs.readFileSync(filePath, "utf-8")) as IndexArtifact;
+    if (
+      artifact.version !== INDEX_VERSION ||
+      artifact.embeddingModel !== EMBEDDING_MODEL ||
+      artifact.sourcesHash !== sourcesHash
+    ) {
+      return null;
+    }
+
+    const idf = toMap(artifact.idf);
+    const chunks: IndexedChunk[] = artifact.chunks.map((chunk) => {
+      const termFreq = toMap(chunk.termFreq);
+      const { vector, norm } = computeTfidfFromCounts(termFreq, chunk.length, idf);
+      return {
+        id: chunk.id,
+        sourceId: chunk.sourceId,
+        title: chunk.title,
+        url: chunk.url,
+        content: chunk.content,
+        city: chunk.city,
+        tags: chunk.tags,
+        verifiedAt: chunk.verifiedAt,
+        section: chunk.section,
+        anchor: chunk.anchor,
+        start: chunk.start,
+        end: chunk.end,
+        tfidf: vector,
+        norm,
+        termFreq,
+        length: chunk.length,
+        embedding: decodeVector(chunk.embedding)
+      };
+    });
+
+    return {
+      chunks,
+      idf,
+      bm25Idf: toMap(artifact.bm25Idf),
+      avgLength: artifact.avgLength
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function writeIndexArtifact(index: RetrievalIndex, sourcesHash: string) {
+  const artifact: IndexArtifact = {
+    version: INDEX_VERSION,
+    sourcesHash,
+    embeddingModel: EMBEDDING_MODEL,
+    createdAt: new Date().toISOString(),
+    avgLength: index.avgLength,
+    idf: toRecord(index.idf),
+    bm25Idf: toRecord(index.bm25Idf),
+    chunks: index.chunks.map((chunk) => ({
+      id: chunk.id,
+      sourceId: chunk.sourceId,
+      title: chunk.title,
+      url: chunk.url,
+      content: chunk.content,
+      city: chunk.city,
+      tags: chunk.tags,
+      verifiedAt: chunk.verifiedAt,
+      section: chunk.section,
+      anchor: chunk.anchor,
+      start: chunk.start,
+      end: chunk.end,
+      length: chunk.length,
+      termFreq: toRecord(chunk.termFreq),
+      embedding: encodeVector(chunk.embedding)
+    }))
+  };
+
+  const filePath = indexArtifactPath();
+  fs.writeFileSync(filePath, JSON.stringify(artifact));
+  return { filePath, chunks: artifact.chunks.length };
+}
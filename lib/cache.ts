@@ -0,0 +1,257 @@
+import { sql } from "@vercel/postgres";
+import { createHash } from "node:crypto";
+import fs from "fs/promises";
+import path from "path";
+import { ensureSchema } from "./migrations";
+
+export type CacheStore = {
+  name: string;
+  get(key: string): Promise<unknown>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  purge(): Promise<number>;
+  size(): Promise<number>;
+};
+
+export type CacheStats = {
+  store: string;
+  entries: number | null;
+  hits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+  purged: number;
+};
+
+type MemoryOptions = {
+  maxEntries: number;
+  maxBytes: number;
+};
+
+type MemoryEntry = {
+  value: unknown;
+  bytes: number;
+  expires: number;
+};
+
+type FileEntry = {
+  expires: number;
+  value: unknown;
+};
+
+const DEFAULT_MEMORY: MemoryOptions = {
+  maxEntries: 500,
+  maxBytes: 20 * 1024 * 1024
+};
+
+// Evicts least recently used entries once either bound is exceeded; Map
+// iteration order doubles as the recency list.
+export function createMemoryCache(options: Partial<MemoryOptions> = {}): CacheStore {
+  const { maxEntries, maxBytes } = { ...DEFAULT_MEMORY, ...options };
+  const entries = new Map<string, MemoryEntry>();
+  let totalBytes = 0;
+
+  function remove(key: string) {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+  }
+
+  return {
+    name: "memory",
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      remove(key);
+      if (entry.expires <= Date.now()) return null;
+      entries.set(key, entry);
+      totalBytes += entry.bytes;
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      const bytes = Buffer.byteLength(JSON.stringify(value));
+      remove(key);
+      if (bytes > maxBytes) return;
+
+      entries.set(key, { value, bytes, expires: Date.now() + ttlMs });
+      totalBytes += bytes;
+      while (entries.size > maxEntries || totalBytes > maxBytes) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        remove(oldest);
+      }
+    },
+    async purge() {
+      const count = entries.size;
+      entries.clear();
+      totalBytes = 0;
+      return count;
+    },
+    async size() {
+      return entries.size;
+    }
+  };
+}
+
+// One JSON file per key, for local development where entries should survive
+// restarts of `next dev`.
+export function createFileCache(dir: string): CacheStore {
+  const root = path.resolve(process.cwd(), dir);
+  const fileFor = (key: string) =>
+    path.join(root, `${createHash("sha256").update(key).digest("hex")}.json`);
+
+  async function files() {
+    try {
+      return (await fs.readdir(root)).filter((name) => name.endsWith(".json"));
+    } catch {
+      return [];
+    }
+  }
+
+  return {
+    name: "file",
+    async get(key) {
+      const filePath = fileFor(key);
+      let entry: FileEntry;
+      try {
+        entry = JSON.parse(await fs.readFile(filePath, "utf-8")) as FileEntry;
+      } catch {
+        return null;
+      }
+      if (entry.expires <= Date.now()) {
+        await fs.rm(filePath, { force: true });
+        return null;
+      }
+      return entry.value;
+    },
+    async set(key, value, ttlMs) {
+      await fs.mkdir(root, { recursive: true });
+      const entry: FileEntry = { expires: Date.now() + ttlMs, value };
+      const filePath = fileFor(key);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(entry));
+      await fs.rename(tempPath, filePath);
+    },
+    async purge() {
+      const names = await files();
+      await Promise.all(names.map((name) => fs.rm(path.join(root, name), { force: true })));
+      return names.length;
+    },
+    async size() {
+      return (await files()).length;
+    }
+  };
+}
+
+// Share of writes that also delete expired rows, so the table stays bounded
+// without a scheduled job or a DELETE on every answer.
+const POSTGRES_SWEEP_RATE = 0.05;
+
+export function createPostgresCache(): CacheStore {
+  return {
+    name: "postgres",
+    async get(key) {
+      await ensureSchema();
+      const { rows } = await sql`
+        SELECT value FROM response_cache WHERE key = ${key} AND expires_at > now();
+      `;
+      return rows[0]?.value ?? null;
+    },
+    async set(key, value, ttlMs) {
+      await ensureSchema();
+      await sql`
+        INSERT INTO response_cache (key, value, expires_at, created_at)
+        VALUES (${key}, ${JSON.stringify(value)}, now() + make_interval(secs => ${ttlMs / 1000}), now())
+        ON CONFLICT (key) DO UPDATE SET
+          value = EXCLUDED.value,
+          expires_at = EXCLUDED.expires_at,
+          created_at = EXCLUDED.created_at;
+      `;
+      if (Math.random() < POSTGRES_SWEEP_RATE) {
+        await sql`DELETE FROM response_cache WHERE expires_at <= now();`;
+      }
+    },
+    async purge() {
+      await ensureSchema();
+      const { rowCount } = await sql`DELETE FROM response_cache;`;
+      return rowCount ?? 0;
+    },
+    async size() {
+      await ensureSchema();
+      const { rows } = await sql`SELECT count(*)::int AS count FROM response_cache WHERE expires_at > now();`;
+      return Number(rows[0]?.count ?? 0);
+    }
+  };
+}
+
+function numberEnv(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function resolveStore(): CacheStore {
+  const kind = process.env.RESPONSE_CACHE_STORE;
+  if (kind === "postgres" && process.env.POSTGRES_URL) {
+    return createPostgresCache();
+  }
+  if (kind === "file") {
+    return createFileCache(process.env.RESPONSE_CACHE_DIR || ".cache/responses");
+  }
+  return createMemoryCache({
+    maxEntries: numberEnv(process.env.RESPONSE_CACHE_MAX_ENTRIES, DEFAULT_MEMORY.maxEntries),
+    maxBytes: numberEnv(process.env.RESPONSE_CACHE_MAX_BYTES, DEFAULT_MEMORY.maxBytes)
+  });
+}
+
+let store: CacheStore | null = null;
+const counters = { hits: 0, misses: 0, writes: 0, errors: 0, purged: 0 };
+
+function responseCache() {
+  store ??= resolveStore();
+  return store;
+}
+
+// Store failures are logged and treated as misses so a cache outage never
+// fails a chat request.
+export async function cacheGet<T>(key: string): Promise<T | null> {
+  try {
+    const value = await responseCache().get(key);
+    if (value === null || value === undefined) {
+      counters.misses += 1;
+      return null;
+    }
+    counters.hits += 1;
+    return value as T;
+  } catch (error) {
+    counters.errors += 1;
+    counters.misses += 1;
+    console.warn(`Response cache read failed: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+export async function cacheSet(key: string, value: unknown, ttlMs: number) {
+  try {
+    await responseCache().set(key, value, ttlMs);
+    counters.writes += 1;
+  } catch (error) {
+    counters.errors += 1;
+    console.warn(`Response cache write failed: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+export async function purgeCache() {
+  const count = await responseCache().purge();
+  counters.purged += count;
+  return count;
+}
+
+export async function cacheStats(): Promise<CacheStats> {
+  let entries: number | null = null;
+  try {
+    entries = await responseCache().size();
+  } catch {
+    counters.errors += 1;
+  }
+  return { store: responseCache().name, entries, ...counters };
+}
@@ -0,0 +1,201 @@
+export type ChunkLimits = {
+  minChars: number;
+  maxChars: number;
+  overlapChars: number;
+};
+
+export type SourceChunk = {
+  content: string;
+  section: string[];
+  anchor: string | null;
+  start: number;
+  end: number;
+};
+
+type Span = { start: number; end: number };
+
+type Section = { path: string[]; anchor: string | null; paragraphs: Span[] };
+
+// Paragraphs shorter than minChars are merged into a neighbour from the same
+// section; longer than maxChars they are split on sentence boundaries, with
+// up to overlapChars of trailing sentences repeated in the next window.
+export const CHUNK_LIMITS: ChunkLimits = {
+  minChars: 300,
+  maxChars: 1200,
+  overlapChars: 200
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const SENTENCE_END = /[.!?…]+["'”’)\]]*\s+/g;
+
+// GitHub-style heading ids, so a chunk can link to its section in the
+// rendered page.
+export function headingAnchor(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[*_`]/g, "")
+    .replace(/[^\p{L}\p{N}\s-]/gu, "")
+    .trim()
+    .replace(/\s+/g, "-");
+}
+
+function parseSections(content: string) {
+  const sections: Section[] = [{ path: [], anchor: null, paragraphs: [] }];
+  const headings: Array<{ level: number; text: string }> = [];
+  const anchorCounts = new Map<string, number>();
+  let paragraph: Span | null = null;
+  let inFence = false;
+  let offset = 0;
+
+  const flush = () => {
+    if (paragraph) sections[sections.length - 1].paragraphs.push(paragraph);
+    paragraph = null;
+  };
+
+  for (const line of content.split("\n")) {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (line.trimStart().startsWith("```")) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING_PATTERN);
+
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      const text = heading[2].replace(/[*_`]/g, "").trim();
+      while (headings.length > 0 && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text });
+
+      const base = headingAnchor(text);
+      const count = anchorCounts.get(base) ?? 0;
+      anchorCounts.set(base, count + 1);
+      sections.push({
+        path: headings.map((item) => item.text),
+        anchor: base ? (count > 0 ? `${base}-${count}` : base) : null,
+        paragraphs: []
+      });
+      continue;
+    }
+
+    if (!inFence && !line.trim()) {
+      flush();
+      continue;
+    }
+
+    const start = lineStart + (line.length - line.trimStart().length);
+    const end = lineStart + line.trimEnd().length;
+    paragraph = paragraph ? { start: paragraph.start, end } : { start, end };
+  }
+  flush();
+
+  return sections.filter((section) => section.paragraphs.length > 0);
+}
+
+function size(span: Span) {
+  return span.end - span.start;
+}
+
+// Breaks a single over-long sentence at whitespace.
+function splitWords(content: string, span: Span, maxChars: number) {
+  const pieces: Span[] = [];
+  let start = span.start;
+
+  while (span.end - start > maxChars) {
+    const cut = content.lastIndexOf(" ", start + maxChars);
+    const end = cut > start ? cut : start + maxChars;
+    pieces.push({ start, end });
+    start = end;
+    while (start < span.end && /\s/.test(content[start])) start += 1;
+  }
+  pieces.push({ start, end: span.end });
+
+  return pieces;
+}
+
+function sentenceSpans(content: string, span: Span, maxChars: number) {
+  const text = content.slice(span.start, span.end);
+  const sentences: Span[] = [];
+  let start = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const index = match.index ?? 0;
+    sentences.push({ start: span.start + start, end: span.start + index + match[0].trimEnd().length });
+    start = index + match[0].length;
+  }
+  if (start < text.length) {
+    sentences.push({ start: span.start + start, end: span.end });
+  }
+
+  return sentences.flatMap((sentence) =>
+    size(sentence) > maxChars ? splitWords(content, sentence, maxChars) : [sentence]
+  );
+}
+
+function splitOversized(content: string, span: Span, limits: ChunkLimits) {
+  const sentences = sentenceSpans(content, span, limits.maxChars);
+  const windows: Span[] = [];
+  let first = 0;
+
+  while (first < sentences.length) {
+    let last = first;
+    while (
+      last + 1 < sentences.length &&
+      sentences[last + 1].end - sentences[first].start <= limits.maxChars
+    ) {
+      last += 1;
+    }
+    windows.push({ start: sentences[first].start, end: sentences[last].end });
+    if (last === sentences.length - 1) break;
+
+    // Step back over trailing sentences for overlap, but always move forward.
+    let next = last + 1;
+    while (next - 1 > first && sentences[last].end - sentences[next - 1].start <= limits.overlapChars) {
+      next -= 1;
+    }
+    first = next;
+  }
+
+  return windows;
+}
+
+function packSection(content: string, section: Section, limits: ChunkLimits) {
+  const spans: Span[] = [];
+  let current: Span | null = null;
+
+  for (const paragraph of section.paragraphs) {
+    if (size(paragraph) > limits.maxChars) {
+      if (current) spans.push(current);
+      current = null;
+      spans.push(...splitOversized(content, paragraph, limits));
+      continue;
+    }
+
+    const mergeable =
+      current !== null &&
+      (size(current) < limits.minChars || size(paragraph) < limits.minChars) &&
+      paragraph.end - current.start <= limits.maxChars;
+    if (current && mergeable) {
+      current = { start: current.start, end: paragraph.end };
+    } else {
+      if (current) spans.push(current);
+      current = paragraph;
+    }
+  }
+  if (current) spans.push(current);
+
+  return spans;
+}
+
+// Chunks never cross a heading, so every chunk belongs to exactly one section
+// and its offsets point into the original content.
+export function chunkMarkdown(content: string, limits: ChunkLimits = CHUNK_LIMITS): SourceChunk[] {
+  return parseSections(content).flatMap((section) =>
+    packSection(content, section, limits).map((span) => ({
+      content: content.slice(span.start, span.end),
+      section: section.path,
+      anchor: section.anchor,
+      start: span.start,
+      end: span.end
+    }))
+  );
+}
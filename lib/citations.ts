@@ -0,0 +1,150 @@
+import { dot, embedTokens } from "./embeddings";
+import { tokenize } from "./tokenizer";
+
+export type SupportLevel = "supported" | "weak" | "unsupported";
+
+export type SentenceGrounding = {
+  sentence: string;
+  citations: string[];
+  support: SupportLevel;
+  score: number;
+  unsupportedNumbers: string[];
+};
+
+export type CitationReport = {
+  sentences: SentenceGrounding[];
+  invalidCitations: string[];
+};
+
+type CitedSource = {
+  title: string;
+  content: string;
+};
+
+const SUPPORTED_SCORE = 0.45;
+const WEAK_SCORE = 0.2;
+const CITATION_GROUP = /\[(S\d+(?:\s*[,;]\s*S\d+)*)\]/g;
+const LIST_PREFIX = /^\s*(?:[-*+]\s+|\d+[.)]\s+|#{1,6}\s+|>\s*)/;
+const TABLE_SEPARATOR = /^:?-{3,}:?$/;
+const NUMBER = /\d+(?:[ .,]\d{3})*(?:[.,]\d+)?/g;
+
+function parseIds(group: string) {
+  return group.split(/[,;]/).map((id) => id.trim().toUpperCase());
+}
+
+function isValidId(id: string, count: number) {
+  const index = Number(id.slice(1));
+  return Number.isInteger(index) && index >= 1 && index <= count;
+}
+
+function stripInvalidCitations(text: string, count: number, invalid: Set<string>) {
+  const cleaned = text
+    .replace(CITATION_GROUP, (_, group: string) => {
+      const ids = parseIds(group);
+      ids.filter((id) => !isValidId(id, count)).forEach((id) => invalid.add(id));
+      const valid = ids.filter((id) => isValidId(id, count));
+      return valid.length > 0 ? `[${valid.join(", ")}]` : "";
+    })
+    .replace(/[ \t]+([.,;:!?])/g, "$1")
+    .replace(/(\S)[ \t]{2,}/g, "$1 ")
+    .replace(/[ \t]+$/gm, "");
+
+  return cleaned.replace(/^(\s*Sources:)[ \t]*$/im, "$1 none");
+}
+
+// Table rows are checked cell by cell, and "• a<br>• b" cells item by item,
+// so per-day citations in itinerary tables are verified like prose.
+function tableItems(line: string) {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim())
+    .filter((cell) => !TABLE_SEPARATOR.test(cell))
+    .flatMap((cell) => cell.split(/<br\s*\/?>/i))
+    .map((item) => item.replace(/^\s*•\s*/, "").trim());
+}
+
+function splitSentences(text: string) {
+  const sentences: string[] = [];
+  for (const line of text.split("\n")) {
+    const units = line.trim().startsWith("|")
+      ? tableItems(line)
+      : [line.replace(LIST_PREFIX, "").trim()];
+    for (const unit of units) {
+      if (!unit || /^Sources:/i.test(unit)) continue;
+      sentences.push(...unit.split(/(?<=[.!?])\s+(?=\S)/).filter(Boolean));
+    }
+  }
+  return sentences;
+}
+
+function numbersIn(text: string) {
+  return (text.match(NUMBER) ?? []).map((value) => value.replace(/\D/g, ""));
+}
+
+function scoreSupport(claimTokens: string[], claimVector: Float32Array, source: CitedSource) {
+  const sourceTokens = tokenize(`${source.title} ${source.content}`);
+  const vocabulary = new Set(sourceTokens);
+  const unique = Array.from(new Set(claimTokens));
+  const lexical = unique.length > 0
+    ? unique.filter((token) => vocabulary.has(token)).length / unique.length
+    : 0;
+  const semantic = Math.max(0, dot(claimVector, embedTokens(sourceTokens)));
+  return (lexical + semantic) / 2;
+}
+
+// The same filtering as verifyCitations, for text that is returned outside
+// the answer, such as the fields of a structured itinerary.
+export function stripCitations(text: string, sourceCount: number) {
+  return stripInvalidCitations(text, sourceCount, new Set());
+}
+
+// Checks every sentence that carries an [S#] marker against the chunks it
+// cites. References to sources that were never provided are removed from the
+// text, and numbers (prices, durations, hours) must appear in a cited source
+// for the sentence to count as supported.
+export function verifyCitations(text: string, sources: CitedSource[]) {
+  const invalid = new Set<string>();
+  const cleaned = stripInvalidCitations(text, sources.length, invalid);
+  const sentences: SentenceGrounding[] = [];
+
+  for (const sentence of splitSentences(cleaned)) {
+    const citations = Array.from(
+      new Set(Array.from(sentence.matchAll(CITATION_GROUP)).flatMap((match) => parseIds(match[1])))
+    );
+    if (citations.length === 0) continue;
+
+    const claim = sentence.replace(CITATION_GROUP, " ");
+    const cited = citations.map((id) => sources[Number(id.slice(1)) - 1]);
+    const claimTokens = tokenize(claim);
+    const claimVector = embedTokens(claimTokens);
+    const score = Math.max(...cited.map((source) => scoreSupport(claimTokens, claimVector, source)));
+
+    const citedNumbers = new Set(cited.flatMap((source) => numbersIn(source.content)));
+    const unsupportedNumbers = Array.from(new Set(numbersIn(claim))).filter(
+      (value) => !citedNumbers.has(value)
+    );
+
+    let support: SupportLevel =
+      score >= SUPPORTED_SCORE ? "supported" : score >= WEAK_SCORE ? "weak" : "unsupported";
+    if (support === "supported" && unsupportedNumbers.length > 0) {
+      support = "weak";
+    }
+
+    sentences.push({
+      sentence,
+      citations,
+      support,
+      score: Number(score.toFixed(3)),
+      unsupportedNumbers
+    });
+  }
+
+  const report: CitationReport = {
+    sentences,
+    invalidCitations: Array.from(invalid)
+  };
+
+  return { text: cleaned, report };
+}
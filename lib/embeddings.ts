@@ -0,0 +1,112 @@
+export const EMBEDDING_MODEL = "hashed-ngram-v4";
+export const EMBEDDING_DIM = 256;
+
+// Terms that tourists use interchangeably share a concept feature, so
+// "fast way to Samarkand" lands near "Afrosiyob high-speed train". Entries
+// are tokenizer output: stemmed, with Russian/Uzbek transliterated to Latin.
+const CONCEPTS: string[][] = [
+  ["travel", "transport", "transportation", "get", "getting", "way", "route", "journey", "transfer", "connect", "doroga", "dobrats", "doekhat", "proezd", "yol"],
+  ["train", "rail", "railway", "afrosiyob", "sharq", "station", "express", "poezd", "poyezd", "vokzal"],
+  ["fast", "faster", "fastest", "quick", "quickly", "quickest", "speed", "high", "bystro", "tez"],
+  ["flight", "fly", "plane", "airport", "airline", "airway", "uzairway", "samolet", "samolyot", "aeroport"],
+  ["taxi", "car", "driver", "yandex", "shared", "taksi"],
+  ["metro", "subway", "underground"],
+  ["bus", "marshrutka", "minibus", "avtobus"],
+  ["visa", "evisa", "entry", "passport", "embassy", "consulate", "registration", "viza", "vizasi"],
+  ["price", "cost", "fare", "ticket", "cheap", "expensive", "tsen", "narx", "bilet"],
+  ["hotel", "hostel", "guesthouse", "accommodation", "lodging", "stay", "gostinits", "mehmonxona"],
+  ["food", "eat", "eating", "restaurant", "cuisine", "dish", "plov", "osh", "oshxona"],
+  ["market", "bazaar", "bazar", "bozor", "shopping", "souvenir", "craft", "rynok"],
+  ["safe", "safety", "advisory", "crime", "scam", "bezopasnost", "xavfsizlik"],
+  ["mosque", "madrasah", "madrasa", "mausoleum", "minaret", "necropolis", "registan"],
+  ["weather", "climate", "season", "summer", "winter", "spring", "autumn", "pogod"],
+  ["history", "historic", "historical", "ancient", "heritage", "unesco"]
+];
+
+const conceptLookup = new Map<string, number>();
+CONCEPTS.forEach((group, index) => {
+  for (const term of group) {
+    conceptLookup.set(term, index);
+  }
+});
+
+// Concepts that all answer "how do I get there" also share a parent feature,
+// so a general travel question reaches pages about any one way of travelling.
+const TRANSPORT_CONCEPTS = new Set(
+  ["travel", "train", "flight", "taxi", "metro", "bus"].map((term) => conceptLookup.get(term))
+);
+
+export function conceptOf(token: string) {
+  return conceptLookup.get(token);
+}
+
+function fnv1a(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number) {
+  const hash = fnv1a(feature);
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[hash % EMBEDDING_DIM] += sign * weight;
+}
+
+export function embedTokens(tokens: string[]) {
+  const vector = new Float32Array(EMBEDDING_DIM);
+
+  for (const token of tokens) {
+    addFeature(vector, `w:${token}`, 1);
+
+    const padded = `#${token}#`;
+    const grams = Math.max(1, padded.length - 2);
+    for (let i = 0; i + 3 <= padded.length; i += 1) {
+      addFeature(vector, `g:${padded.slice(i, i + 3)}`, 0.5 / grams);
+    }
+
+    const concept = conceptLookup.get(token);
+    if (concept !== undefined) {
+      addFeature(vector, `c:${concept}`, 1.5);
+      if (TRANSPORT_CONCEPTS.has(concept)) addFeature(vector, "c:transport", 1.5);
+    }
+  }
+
+  return normalize(vector);
+}
+
+function normalize(vector: Float32Array) {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm === 0) return vector;
+  for (let i = 0; i < vector.length; i += 1) {
+    vector[i] /= norm;
+  }
+  return vector;
+}
+
+export function dot(a: Float32Array, b: Float32Array) {
+  let sum = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export function encodeVector(vector: Float32Array) {
+  const bytes = Int8Array.from(vector, (value) =>
+    Math.max(-127, Math.min(127, Math.round(value * 127)))
+  );
+  return Buffer.from(bytes.buffer).toString("base64");
+}
+
+export function decodeVector(encoded: string) {
+  const buffer = Buffer.from(encoded, "base64");
+  const bytes = new Int8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+  return normalize(Float32Array.from(bytes, (value) => value / 127));
+}
@@ -0,0 +1,229 @@
+import { sql } from "@vercel/postgres";
+import { randomUUID } from "node:crypto";
+import { ensureSchema } from "./migrations";
+import type { ChatMode, FeedbackCategory, FeedbackSource } from "./validation";
+
+export type FeedbackRecord = {
+  id: string;
+  createdAt: string;
+  messageId: string | null;
+  rating: 1 | -1;
+  mode: string | null;
+  question: string | null;
+  answer: string | null;
+  sources: FeedbackSource[];
+  category: FeedbackCategory | null;
+  comment: string | null;
+  userAgent: string | null;
+  updatedAt: string | null;
+};
+
+// The part of a rating that analytics and priors read. The answer itself is
+// reduced to the [S#] ids it cited, so summaries over thousands of rows don't
+// load every answer text.
+export type FeedbackRating = {
+  createdAt: string;
+  rating: 1 | -1;
+  question: string | null;
+  sources: FeedbackSource[];
+  category: FeedbackCategory | null;
+  cited: string[];
+};
+
+export type FeedbackFilters = {
+  mode?: ChatMode;
+  rating?: 1 | -1;
+  from?: Date;
+  to?: Date;
+  limit: number;
+};
+
+// The edit token stays server-side: listings and exports never include it.
+const memoryStore: Array<FeedbackRecord & { editToken: string }> = [];
+const CITATION_PATTERN = "\\[(S\\d+)\\]";
+
+export function feedbackStorage() {
+  return process.env.POSTGRES_URL ? "postgres" : "memory";
+}
+
+// Client-chosen messageIds can be guessed, so a rating is only updated by a
+// request carrying the edit token returned when the row was created, and only
+// within this window of the first rating.
+const FEEDBACK_EDIT_WINDOW_MS = 1000 * 60 * 60 * 24;
+
+// A second rating for the same messageId (a changed mind, or details added
+// after the first click) updates the earlier row instead of adding another.
+// `rejected` means a row exists but may not be changed by this request;
+// otherwise `editToken` is the token for later updates.
+export async function saveFeedback(feedback: FeedbackRecord, editToken: string | null) {
+  const newToken = randomUUID();
+
+  if (feedbackStorage() === "memory") {
+    const index = feedback.messageId
+      ? memoryStore.findIndex((record) => record.messageId === feedback.messageId)
+      : -1;
+    if (index === -1) {
+      memoryStore.push({ ...feedback, editToken: newToken });
+      return { updated: false, rejected: false, editToken: newToken };
+    }
+    const existing = memoryStore[index];
+    if (
+      !editToken ||
+      existing.editToken !== editToken ||
+      Date.now() - Date.parse(existing.createdAt) > FEEDBACK_EDIT_WINDOW_MS
+    ) {
+      return { updated: false, rejected: true, editToken: null };
+    }
+    memoryStore[index] = {
+      ...feedback,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+      editToken: existing.editToken
+    };
+    return { updated: true, rejected: false, editToken };
+  }
+
+  await ensureSchema();
+  // One statement, so two concurrent posts for a new messageId can't both
+  // insert; xmax is 0 only for a freshly inserted row. A missing token never
+  // matches, since NULL = NULL is not true.
+  const { rows } = await sql`
+    INSERT INTO feedback (
+      id, created_at, message_id, rating, mode, question, answer, sources, category, comment,
+      user_agent, edit_token
+    )
+    VALUES (
+      ${feedback.id},
+      ${feedback.createdAt},
+      ${feedback.messageId},
+      ${feedback.rating},
+      ${feedback.mode},
+      ${feedback.question},
+      ${feedback.answer},
+      ${JSON.stringify(feedback.sources)},
+      ${feedback.category},
+      ${feedback.comment},
+      ${feedback.userAgent},
+      ${newToken}
+    )
+    ON CONFLICT (message_id) DO UPDATE SET
+      rating = EXCLUDED.rating,
+      mode = EXCLUDED.mode,
+      question = EXCLUDED.question,
+      answer = EXCLUDED.answer,
+      sources = EXCLUDED.sources,
+      category = EXCLUDED.category,
+      comment = EXCLUDED.comment,
+      updated_at = now()
+    WHERE feedback.edit_token = ${editToken}
+      AND feedback.created_at > now() - ${FEEDBACK_EDIT_WINDOW_MS / 1000} * interval '1 second'
+    RETURNING (xmax = 0) AS inserted;
+  `;
+  if (rows.length === 0) return { updated: false, rejected: true, editToken: null };
+  return rows[0].inserted
+    ? { updated: false, rejected: false, editToken: newToken }
+    : { updated: true, rejected: false, editToken };
+}
+
+function matches(record: FeedbackRecord, filters: FeedbackFilters) {
+  const created = Date.parse(record.createdAt);
+  return (
+    (!filters.mode || record.mode === filters.mode) &&
+    (!filters.rating || record.rating === filters.rating) &&
+    (!filters.from || created >= filters.from.getTime()) &&
+    (!filters.to || created < filters.to.getTime())
+  );
+}
+
+// Newest first. `to` is exclusive.
+export async function listFeedback(filters: FeedbackFilters): Promise<FeedbackRecord[]> {
+  if (feedbackStorage() === "memory") {
+    return memoryStore
+      .filter((record) => matches(record, filters))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filters.limit)
+      .map(({ editToken: _editToken, ...record }) => record);
+  }
+
+  await ensureSchema();
+  const mode = filters.mode ?? null;
+  const rating = filters.rating ?? null;
+  const from = filters.from?.toISOString() ?? null;
+  const to = filters.to?.toISOString() ?? null;
+  const { rows } = await sql`
+    SELECT id, created_at, message_id, rating, mode, question, answer, sources, category, comment,
+      user_agent, updated_at
+    FROM feedback
+    WHERE (${mode}::text IS NULL OR mode = ${mode})
+      AND (${rating}::int IS NULL OR rating = ${rating})
+      AND (${from}::timestamptz IS NULL OR created_at >= ${from}::timestamptz)
+      AND (${to}::timestamptz IS NULL OR created_at < ${to}::timestamptz)
+    ORDER BY created_at DESC
+    LIMIT ${filters.limit};
+  `;
+
+  return rows.map((row) => ({
+    id: row.id,
+    createdAt: new Date(row.created_at).toISOString(),
+    messageId: row.message_id,
+    rating: row.rating === -1 ? -1 : 1,
+    mode: row.mode,
+    question: row.question,
+    answer: row.answer,
+    sources: Array.isArray(row.sources) ? row.sources : [],
+    category: row.category,
+    comment: row.comment,
+    userAgent: row.user_agent,
+    updatedAt: row.updated_at ? new Date(row.updated_at).toISOString() : null
+  }));
+}
+
+export function feedbackRating(record: FeedbackRecord): FeedbackRating {
+  const cited = Array.from((record.answer ?? "").matchAll(new RegExp(CITATION_PATTERN, "g")));
+  return {
+    createdAt: record.createdAt,
+    rating: record.rating,
+    question: record.question,
+    sources: record.sources,
+    category: record.category,
+    cited: Array.from(new Set(cited.map((match) => match[1])))
+  };
+}
+
+// Same filters and order as listFeedback; the citation ids are extracted in
+// SQL so the answer text never leaves the database.
+export async function listFeedbackRatings(filters: FeedbackFilters): Promise<FeedbackRating[]> {
+  if (feedbackStorage() === "memory") {
+    return (await listFeedback(filters)).map(feedbackRating);
+  }
+
+  await ensureSchema();
+  const mode = filters.mode ?? null;
+  const rating = filters.rating ?? null;
+  const from = filters.from?.toISOString() ?? null;
+  const to = filters.to?.toISOString() ?? null;
+  const { rows } = await sql`
+    SELECT created_at, rating, question, sources, category,
+      ARRAY(
+        SELECT DISTINCT match[1]
+        FROM regexp_matches(coalesce(answer, ''), ${CITATION_PATTERN}, 'g') AS match
+      ) AS cited
+    FROM feedback
+    WHERE (${mode}::text IS NULL OR mode = ${mode})
+      AND (${rating}::int IS NULL OR rating = ${rating})
+      AND (${from}::timestamptz IS NULL OR created_at >= ${from}::timestamptz)
+      AND (${to}::timestamptz IS NULL OR created_at < ${to}::timestamptz)
+    ORDER BY created_at DESC
+    LIMIT ${filters.limit};
+  `;
+
+  return rows.map((row) => ({
+    createdAt: new Date(row.created_at).toISOString(),
+    rating: row.rating === -1 ? -1 : 1,
+    question: row.question,
+    sources: Array.isArray(row.sources) ? row.sources : [],
+    category: row.category,
+    cited: Array.isArray(row.cited) ? row.cited : []
+  }));
+}
@@ -0,0 +1,82 @@
+export type Freshness = {
+  verifiedAt: string | null;
+  maxAgeDays: number;
+  ageDays: number | null;
+  stale: boolean;
+};
+
+type DatedSource = {
+  tags?: string[];
+  lastVerified?: string;
+  fetchedAt?: string;
+};
+
+// Days a source stays trustworthy after it was last checked, by tag. A source
+// with several tags gets the strictest window.
+export const MAX_AGE_DAYS: Record<string, number> = {
+  visa: 90,
+  registration: 90,
+  advisory: 90,
+  safety: 90,
+  schedules: 90,
+  prices: 180,
+  rules: 180,
+  transport: 180
+};
+
+export const DEFAULT_MAX_AGE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// `lastVerified` is a human check (KB frontmatter); `fetchedAt` is only when
+// the content was last ingested, used when nobody has verified it.
+export function verifiedAt(source: DatedSource) {
+  for (const value of [source.lastVerified, source.fetchedAt]) {
+    if (value && !Number.isNaN(Date.parse(value))) {
+      return new Date(value).toISOString().slice(0, 10);
+    }
+  }
+  return null;
+}
+
+export function maxAgeDays(tags: string[] = []) {
+  const windows = tags
+    .map((tag) => MAX_AGE_DAYS[tag.trim().toLowerCase()])
+    .filter((days): days is number => days !== undefined);
+  return windows.length > 0 ? Math.min(...windows) : DEFAULT_MAX_AGE_DAYS;
+}
+
+// Undated sources are not stale (there is nothing to compare), but they are
+// always overdue for review.
+export function freshness(
+  date: string | null,
+  tags: string[] = [],
+  now = new Date()
+): Freshness {
+  const maxAge = maxAgeDays(tags);
+  if (!date) {
+    return { verifiedAt: null, maxAgeDays: maxAge, ageDays: null, stale: false };
+  }
+  const ageDays = Math.max(0, Math.floor((now.getTime() - Date.parse(date)) / DAY_MS));
+  return { verifiedAt: date, maxAgeDays: maxAge, ageDays, stale: ageDays > maxAge };
+}
+
+export function overdueSources<T extends DatedSource & { id: string }>(
+  sources: T[],
+  now = new Date()
+) {
+  return sources
+    .map((source) => ({ source, ...freshness(verifiedAt(source), source.tags, now) }))
+    .filter((item) => item.verifiedAt === null || item.stale)
+    .sort(
+      (a, b) =>
+        (b.ageDays ?? Number.MAX_SAFE_INTEGER) - (a.ageDays ?? Number.MAX_SAFE_INTEGER) ||
+        a.source.id.localeCompare(b.source.id)
+    );
+}
+
+export function describeOverdue(item: Freshness) {
+  return item.verifiedAt
+    ? `last verified ${item.verifiedAt}, ${item.ageDays} days ago (limit ${item.maxAgeDays})`
+    : "never verified";
+}
@@ -0,0 +1,54 @@
+import { GROUNDING_MESSAGES, type Language } from "./i18n";
+
+export type GroundingPolicy = "strict" | "hedged" | "open";
+
+export type GroundingStatus = "grounded" | "refused" | "hedged" | "ungrounded";
+
+export const GROUNDING_POLICIES: GroundingPolicy[] = ["strict", "hedged", "open"];
+
+// "open" matches how answers behaved before the policy existed, so upgrading
+// does not change an existing deployment until it opts in.
+export function resolveGroundingPolicy(value = process.env.GROUNDING_POLICY): GroundingPolicy {
+  return GROUNDING_POLICIES.find((policy) => policy === value) ?? "open";
+}
+
+// Below this, the best source only shares a word or two with the question.
+export const DEFAULT_GROUNDING_MIN_RELEVANCE = 0.3;
+
+export function resolveGroundingMinRelevance(value = process.env.GROUNDING_MIN_RELEVANCE) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 && parsed <= 1
+    ? parsed
+    : DEFAULT_GROUNDING_MIN_RELEVANCE;
+}
+
+// Only citable web sources count as grounding: KB notes are always ranked
+// against the query, so they come back even for off-topic questions. The
+// answer is grounded when the best of them is relevant enough, not merely
+// when retrieval returned something.
+export function groundingStatus(
+  policy: GroundingPolicy,
+  citableSources: Array<{ relevance: number }>,
+  minRelevance = resolveGroundingMinRelevance()
+): GroundingStatus {
+  const best = Math.max(0, ...citableSources.map((source) => source.relevance));
+  if (citableSources.length > 0 && best >= minRelevance) return "grounded";
+  if (policy === "strict") return "refused";
+  if (policy === "hedged") return "hedged";
+  return "ungrounded";
+}
+
+export function refusalText(language: Language, links: Array<{ title: string; url: string }>) {
+  const messages = GROUNDING_MESSAGES[language];
+  return [
+    messages.refusal,
+    links.map((link) => `- [${link.title}](${link.url})`).join("\n"),
+    "Sources: none"
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+export function unverifiedBanner(language: Language) {
+  return `> ⚠️ ${GROUNDING_MESSAGES[language].banner}\n\n`;
+}
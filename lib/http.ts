@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import type { FieldError } from "./validation";
+
+export const MAX_BODY_BYTES = {
+  chat: 128 * 1024,
+  feedback: 32 * 1024
+};
+
+type JsonBodyResult<T> = { body: T } | { error: string; status: number };
+
+const TOO_LARGE = { error: "Request body too large.", status: 413 };
+
+// Streams the body and stops at `maxBytes`, so an oversized payload is
+// rejected before it is buffered or parsed, including when Content-Length is
+// missing (chunked uploads) or understates the body.
+export async function readJsonBody<T>(req: Request, maxBytes: number): Promise<JsonBodyResult<T>> {
+  const declared = Number(req.headers.get("content-length"));
+  if (Number.isFinite(declared) && declared > maxBytes) return TOO_LARGE;
+
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  if (req.body) {
+    const reader = req.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      received += value.byteLength;
+      if (received > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        return TOO_LARGE;
+      }
+      chunks.push(value);
+    }
+  }
+
+  try {
+    return { body: JSON.parse(Buffer.concat(chunks).toString("utf-8")) as T };
+  } catch {
+    return { error: "Invalid JSON body.", status: 400 };
+  }
+}
+
+export function tooManyRequests(retryAfterSeconds: number) {
+  return NextResponse.json(
+    {
+      error: `Too many requests. Try again in ${retryAfterSeconds} seconds.`,
+      retryAfter: retryAfterSeconds
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfterSeconds) } }
+  );
+}
+
+export function invalidRequest(errors: FieldError[]) {
+  return NextResponse.json({ error: "Invalid request.", errors }, { status: 400 });
+}
+
+// Routes that need Postgres answer this, not a bare 500, while the deployed
+// code is ahead of the database.
+export function schemaNotReady() {
+  return NextResponse.json(
+    { error: "The database is not migrated yet; run `npm run migrate`." },
+    { status: 503, headers: { "Retry-After": "60" } }
+  );
+}
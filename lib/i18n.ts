@@ -0,0 +1,307 @@
+export type Language = "en" | "ru" | "uz";
+
+export const LANGUAGES: Language[] = ["en", "ru", "uz"];
+
+export const LANGUAGE_COOKIE = "lang";
+
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  ru: "Русский",
+  uz: "Oʻzbekcha"
+};
+
+export function resolveLanguage(value: unknown): Language {
+  return LANGUAGES.find((language) => language === value) ?? "en";
+}
+
+export const CITY_LABELS: Record<Language, Record<string, string>> = {
+  en: {
+    Tashkent: "Tashkent",
+    Samarkand: "Samarkand",
+    Bukhara: "Bukhara",
+    Khiva: "Khiva",
+    "Fergana Valley": "Fergana Valley"
+  },
+  ru: {
+    Tashkent: "Ташкент",
+    Samarkand: "Самарканд",
+    Bukhara: "Бухара",
+    Khiva: "Хива",
+    "Fergana Valley": "Ферганская долина"
+  },
+  uz: {
+    Tashkent: "Toshkent",
+    Samarkand: "Samarqand",
+    Bukhara: "Buxoro",
+    Khiva: "Xiva",
+    "Fergana Valley": "Fargʻona vodiysi"
+  }
+};
+
+export const UI_STRINGS = {
+  en: {
+    tagline: "Minimal travel assistant for Uzbekistan",
+    tabChat: "Q&A",
+    tabItinerary: "Itinerary",
+    language: "Language",
+    chatEmpty: "Ask about intercity transport, visas, lodging, must-see spots, safety.",
+    chatPlaceholder: "Ask about transport, hotels, safety, food, routes...",
+    askLabel: "Ask a question",
+    actionLabel: "Action",
+    send: "Send",
+    sending: "Sending...",
+    disclaimer: "Tips are not official. Always confirm hours and prices.",
+    route: "Route",
+    day: "day",
+    days: "days",
+    total: "total",
+    night: "night",
+    nights: "nights",
+    nightsIn: "Nights in",
+    remove: "Remove",
+    addCity: "Add city",
+    startIn: "Start in",
+    endIn: "End in",
+    firstStop: "First stop",
+    lastStop: "Last stop",
+    pace: "Pace",
+    paceRelaxed: "Relaxed",
+    paceBalanced: "Balanced",
+    pacePacked: "Packed",
+    budget: "Budget",
+    budgetBudget: "Budget",
+    budgetStandard: "Standard",
+    budgetComfort: "Comfort",
+    interests: "Interests and constraints",
+    interestsPlaceholder: "e.g., history, architecture, halal food, no night trains",
+    generate: "Generate itinerary",
+    generating: "Generating...",
+    clear: "Clear",
+    helpfulPrompt: "Was this helpful?",
+    helpful: "Helpful",
+    notHelpful: "Not helpful",
+    thanks: "Thanks!",
+    saveFailed: "Could not save.",
+    feedbackDetails: "Add details",
+    feedbackCategoryPrompt: "What was wrong?",
+    categoryWrongInfo: "Wrong info",
+    categoryOutdated: "Outdated",
+    categoryMissingSource: "Missing source",
+    categoryTooVague: "Too vague",
+    categoryWrongLanguage: "Wrong language",
+    commentPlaceholder: "Anything else we should know? (optional)",
+    sendDetails: "Send",
+    requestFailed: "Request failed",
+    rateLimited: "Too many requests. Please wait {seconds} s and try again.",
+    unexpectedError: "Unexpected error",
+    streamUnsupported: "Streaming is not supported by this browser.",
+    footer: "Built for travelers in Uzbekistan with ❤ by",
+    weakClaim: "Only partly supported by the cited source",
+    unsupportedClaim: "Not supported by the cited source; double-check it",
+    uncheckedNumbers: "Numbers not found in sources",
+    lastVerified: "last verified {date}",
+    mayBeOutdated: "may be outdated"
+  },
+  ru: {
+    tagline: "Минималистичный помощник для поездок по Узбекистану",
+    tabChat: "Вопросы",
+    tabItinerary: "Маршрут",
+    language: "Язык",
+    chatEmpty: "Спросите о переездах между городами, визах, жилье, главных достопримечательностях, безопасности.",
+    chatPlaceholder: "Транспорт, отели, безопасность, еда, маршруты...",
+    askLabel: "Ваш вопрос",
+    actionLabel: "Действие",
+    send: "Отправить",
+    sending: "Отправка...",
+    disclaimer: "Советы неофициальные. Всегда уточняйте часы работы и цены.",
+    route: "Маршрут",
+    day: "день",
+    days: "дн.",
+    total: "всего",
+    night: "ночь",
+    nights: "ночей",
+    nightsIn: "Ночей в городе",
+    remove: "Убрать",
+    addCity: "Добавить город",
+    startIn: "Начало в",
+    endIn: "Конец в",
+    firstStop: "Первый город",
+    lastStop: "Последний город",
+    pace: "Темп",
+    paceRelaxed: "Спокойный",
+    paceBalanced: "Сбалансированный",
+    pacePacked: "Насыщенный",
+    budget: "Бюджет",
+    budgetBudget: "Экономный",
+    budgetStandard: "Стандартный",
+    budgetComfort: "Комфорт",
+    interests: "Интересы и ограничения",
+    interestsPlaceholder: "например: история, архитектура, халяльная еда, без ночных поездов",
+    generate: "Составить маршрут",
+    generating: "Составляем...",
+    clear: "Очистить",
+    helpfulPrompt: "Это было полезно?",
+    helpful: "Полезно",
+    notHelpful: "Бесполезно",
+    thanks: "Спасибо!",
+    saveFailed: "Не удалось сохранить.",
+    feedbackDetails: "Подробнее",
+    feedbackCategoryPrompt: "Что не так?",
+    categoryWrongInfo: "Неверные данные",
+    categoryOutdated: "Устарело",
+    categoryMissingSource: "Нет источника",
+    categoryTooVague: "Слишком общо",
+    categoryWrongLanguage: "Не тот язык",
+    commentPlaceholder: "Что ещё нам стоит знать? (необязательно)",
+    sendDetails: "Отправить",
+    requestFailed: "Запрос не выполнен",
+    rateLimited: "Слишком много запросов. Подождите {seconds} с и попробуйте снова.",
+    unexpectedError: "Непредвиденная ошибка",
+    streamUnsupported: "Этот браузер не поддерживает потоковую передачу.",
+    footer: "Сделано для путешественников по Узбекистану с ❤ —",
+    weakClaim: "Источник подтверждает это лишь частично",
+    unsupportedClaim: "Источник это не подтверждает, перепроверьте",
+    uncheckedNumbers: "Числа не найдены в источниках",
+    lastVerified: "проверено {date}",
+    mayBeOutdated: "может быть устаревшим"
+  },
+  uz: {
+    tagline: "Oʻzbekiston boʻylab sayohat uchun ixcham yordamchi",
+    tabChat: "Savol-javob",
+    tabItinerary: "Marshrut",
+    language: "Til",
+    chatEmpty: "Shaharlararo transport, viza, turar joy, diqqatga sazovor joylar va xavfsizlik haqida soʻrang.",
+    chatPlaceholder: "Transport, mehmonxonalar, xavfsizlik, taomlar, yoʻnalishlar...",
+    askLabel: "Savol bering",
+    actionLabel: "Amal",
+    send: "Yuborish",
+    sending: "Yuborilmoqda...",
+    disclaimer: "Maslahatlar rasmiy emas. Ish vaqti va narxlarni doim tekshiring.",
+    route: "Marshrut",
+    day: "kun",
+    days: "kun",
+    total: "jami",
+    night: "tun",
+    nights: "tun",
+    nightsIn: "Tunlar soni",
+    remove: "Olib tashlash",
+    addCity: "Shahar qoʻshish",
+    startIn: "Boshlanish",
+    endIn: "Yakun",
+    firstStop: "Birinchi shahar",
+    lastStop: "Oxirgi shahar",
+    pace: "Sur'at",
+    paceRelaxed: "Sokin",
+    paceBalanced: "Muvozanatli",
+    pacePacked: "Jadal",
+    budget: "Byudjet",
+    budgetBudget: "Tejamkor",
+    budgetStandard: "Standart",
+    budgetComfort: "Qulay",
+    interests: "Qiziqishlar va cheklovlar",
+    interestsPlaceholder: "masalan: tarix, meʼmorchilik, halol taom, tungi poyezdsiz",
+    generate: "Marshrut tuzish",
+    generating: "Tuzilmoqda...",
+    clear: "Tozalash",
+    helpfulPrompt: "Foydali boʻldimi?",
+    helpful: "Foydali",
+    notHelpful: "Foydasiz",
+    thanks: "Rahmat!",
+    saveFailed: "Saqlab boʻlmadi.",
+    feedbackDetails: "Batafsil",
+    feedbackCategoryPrompt: "Nima notoʻgʻri?",
+    categoryWrongInfo: "Notoʻgʻri maʼlumot",
+    categoryOutdated: "Eskirgan",
+    categoryMissingSource: "Manba yoʻq",
+    categoryTooVague: "Juda umumiy",
+    categoryWrongLanguage: "Boshqa tilda",
+    commentPlaceholder: "Yana nimani bilishimiz kerak? (ixtiyoriy)",
+    sendDetails: "Yuborish",
+    requestFailed: "Soʻrov bajarilmadi",
+    rateLimited: "Soʻrovlar juda koʻp. {seconds} soniya kutib, qayta urinib koʻring.",
+    unexpectedError: "Kutilmagan xato",
+    streamUnsupported: "Bu brauzer oqimli uzatishni qoʻllab-quvvatlamaydi.",
+    footer: "Oʻzbekiston sayyohlari uchun ❤ bilan yaratildi:",
+    weakClaim: "Manba buni qisman tasdiqlaydi",
+    unsupportedClaim: "Manba buni tasdiqlamaydi, qayta tekshiring",
+    uncheckedNumbers: "Raqamlar manbalarda topilmadi",
+    lastVerified: "tekshirilgan: {date}",
+    mayBeOutdated: "eskirgan boʻlishi mumkin"
+  }
+} satisfies Record<Language, Record<string, string>>;
+
+export type UiStrings = (typeof UI_STRINGS)["en"];
+
+export const RESPONSE_LANGUAGE: Record<Language, string> = {
+  en: "Always respond in English.",
+  ru: "Always respond in Russian, even if the sources are in English. Keep place names recognizable (e.g. Самарканд, Бухара).",
+  uz: "Always respond in Uzbek using the Latin script (oʻ, gʻ), even if the sources are in English."
+};
+
+export const GROUNDING_MESSAGES: Record<Language, { refusal: string; banner: string }> = {
+  en: {
+    refusal: "I don't have verified information on this. Please check the official sources below:",
+    banner: "Unverified: no matching sources were found, so this answer is from general knowledge. Confirm details with official sources."
+  },
+  ru: {
+    refusal: "У меня нет проверенной информации по этому вопросу. Пожалуйста, уточните в официальных источниках:",
+    banner: "Не проверено: подходящих источников не найдено, ответ основан на общих знаниях. Уточняйте детали в официальных источниках."
+  },
+  uz: {
+    refusal: "Bu haqda tasdiqlangan maʼlumotim yoʻq. Iltimos, quyidagi rasmiy manbalarni tekshiring:",
+    banner: "Tasdiqlanmagan: mos manbalar topilmadi, javob umumiy bilimlarga asoslangan. Tafsilotlarni rasmiy manbalarda tekshiring."
+  }
+};
+
+export const ITINERARY_LABELS: Record<
+  Language,
+  {
+    day: string;
+    morning: string;
+    afternoon: string;
+    evening: string;
+    transfers: string;
+    transportNotes: string;
+    practicalTips: string;
+    tip: string;
+    details: string;
+    incomplete: string;
+  }
+> = {
+  en: {
+    day: "Day",
+    morning: "Morning",
+    afternoon: "Afternoon",
+    evening: "Evening",
+    transfers: "Transfers",
+    transportNotes: "Transport notes",
+    practicalTips: "Practical tips",
+    tip: "Tip",
+    details: "Details",
+    incomplete: "The generated itinerary did not cover all {days} days. Please try again."
+  },
+  ru: {
+    day: "День",
+    morning: "Утро",
+    afternoon: "После обеда",
+    evening: "Вечер",
+    transfers: "Переезды",
+    transportNotes: "Транспорт",
+    practicalTips: "Практические советы",
+    tip: "Совет",
+    details: "Подробности",
+    incomplete: "Сгенерированный маршрут охватывает не все дни поездки ({days}). Попробуйте ещё раз."
+  },
+  uz: {
+    day: "Kun",
+    morning: "Ertalab",
+    afternoon: "Kunduzi",
+    evening: "Kechqurun",
+    transfers: "Koʻchib oʻtishlar",
+    transportNotes: "Transport",
+    practicalTips: "Amaliy maslahatlar",
+    tip: "Maslahat",
+    details: "Tafsilotlar",
+    incomplete: "Yaratilgan marshrut safarning barcha kunlarini ({days}) qamramadi. Qaytadan urinib koʻring."
+  }
+};
@@ -0,0 +1,396 @@
+import { ITINERARY_LABELS } from "./i18n";
+
+export type ItineraryDay = {
+  day: number;
+  city?: string;
+  theme?: string;
+  morning: string[];
+  afternoon: string[];
+  evening: string[];
+};
+
+export type TransferLeg = {
+  day: number;
+  from: string;
+  to: string;
+  mode: string;
+  notes?: string;
+};
+
+export type TripStop = {
+  city: string;
+  nights: number;
+};
+
+export type Itinerary = {
+  title: string;
+  days: ItineraryDay[];
+  transfers: TransferLeg[];
+  transportNotes: string[];
+  tips: Array<{ label: string; details: string[] }>;
+  sources: string[];
+};
+
+export const ITINERARY_JSON_SCHEMA = JSON.stringify({
+  title: "string",
+  days: [
+    {
+      day: "number",
+      city: "string",
+      theme: "string",
+      morning: ["string"],
+      afternoon: ["string"],
+      evening: ["string"]
+    }
+  ],
+  transfers: [
+    { day: "number", from: "string", to: "string", mode: "train | flight | shared taxi", notes: "string" }
+  ],
+  transportNotes: ["string"],
+  tips: [{ label: "string", details: ["string"] }],
+  sources: ["S1"]
+});
+
+const allLabels = Object.values(ITINERARY_LABELS);
+const DAY_WORDS = labelPattern((labels) => labels.day);
+const TRANSFERS_HEADING = headingPattern(labelPattern((labels) => labels.transfers));
+const TRANSPORT_HEADING = headingPattern(labelPattern((labels) => labels.transportNotes));
+const TIPS_HEADING = headingPattern(labelPattern((labels) => labels.practicalTips));
+const TIP_HEADER = new RegExp(`^(?:${labelPattern((labels) => labels.tip)})$`, "iu");
+const DAY_CELL = new RegExp(
+  `^(?:${DAY_WORDS})\\s+(\\d+)\\s*(?:\\(([^)]+)\\))?\\s*(?:[—–:-]\\s*(.+))?$`,
+  "iu"
+);
+const TRANSFER_LINE = new RegExp(
+  `^[-*]\\s+(?:${DAY_WORDS})\\s+(\\d+):\\s*(.+?)\\s*(?:→|->)\\s*(.+?)\\s+(?:·|by)\\s+(.+?)(?:\\s+—\\s+(.+))?$`,
+  "iu"
+);
+
+function labelPattern(pick: (labels: (typeof allLabels)[number]) => string) {
+  return allLabels.map((labels) => pick(labels).toLowerCase()).join("|");
+}
+
+function headingPattern(pattern: string) {
+  return new RegExp(`^(?:${pattern})(?!\\p{L})`, "u");
+}
+
+function extractJson(text: string) {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+  const braceMatch = candidate.match(/\{[\s\S]*\}/);
+  if (!braceMatch) return null;
+  const raw = braceMatch[0];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    const repaired = raw
+      .replace(/[“”]/g, "\"")
+      .replace(/[’]/g, "'")
+      .replace(/,\s*([}\]])/g, "$1");
+    try {
+      return JSON.parse(repaired);
+    } catch {
+      return null;
+    }
+  }
+}
+
+function coerceStringArray(value: unknown): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) {
+    return value.map((item) => String(item)).filter((item) => item.trim().length > 0);
+  }
+  return [String(value)].filter((item) => item.trim().length > 0);
+}
+
+function normalizeItinerary(raw: unknown, fallbackSources: string[]): Itinerary | null {
+  if (!raw || typeof raw !== "object") return null;
+  const obj = raw as Record<string, unknown>;
+  const daysRaw = Array.isArray(obj.days) ? obj.days : [];
+
+  const days: ItineraryDay[] = daysRaw.map((dayItem, index) => {
+    const dayObj = (dayItem ?? {}) as Record<string, unknown>;
+    const dayNumber = Number(dayObj.day ?? index + 1);
+    return {
+      day: Number.isFinite(dayNumber) ? dayNumber : index + 1,
+      city: dayObj.city ? String(dayObj.city) : undefined,
+      theme: dayObj.theme ? String(dayObj.theme) : undefined,
+      morning: coerceStringArray(dayObj.morning),
+      afternoon: coerceStringArray(dayObj.afternoon),
+      evening: coerceStringArray(dayObj.evening)
+    };
+  });
+
+  if (days.length === 0) return null;
+
+  const title = obj.title ? String(obj.title) : "Itinerary";
+  const transfersRaw = Array.isArray(obj.transfers) ? obj.transfers : [];
+  const transfers = transfersRaw.map((leg) => {
+    const legObj = (leg ?? {}) as Record<string, unknown>;
+    return {
+      day: Number(legObj.day),
+      from: legObj.from ? String(legObj.from) : "",
+      to: legObj.to ? String(legObj.to) : "",
+      mode: legObj.mode ? String(legObj.mode) : "transfer",
+      notes: legObj.notes ? String(legObj.notes) : undefined
+    };
+  });
+  const transportNotes = coerceStringArray(obj.transportNotes);
+  const tipsRaw = Array.isArray(obj.tips) ? obj.tips : [];
+  const tips = tipsRaw.map((tip) => {
+    const tipObj = (tip ?? {}) as Record<string, unknown>;
+    return {
+      label: tipObj.label ? String(tipObj.label) : "Tip",
+      details: coerceStringArray(tipObj.details)
+    };
+  });
+  const sources = coerceStringArray(obj.sources);
+  const normalizedSources = sources.length > 0 ? sources : fallbackSources;
+
+  return {
+    title,
+    days,
+    transfers,
+    transportNotes,
+    tips,
+    sources: normalizedSources
+  };
+}
+
+function splitRow(line: string) {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+function splitCell(cell: string | undefined) {
+  const trimmed = (cell ?? "").trim();
+  if (!trimmed || trimmed === "—" || trimmed === "-") return [];
+  return trimmed
+    .split(/<br\s*\/?>|•|;\s+/i)
+    .map((item) => item.replace(/^[-*]\s+/, "").trim())
+    .filter(Boolean);
+}
+
+function parseSourcesLine(text: string) {
+  const line = text.match(/Sources:\s*(.+)$/im)?.[1] ?? "";
+  if (/\bnone\b/i.test(line)) return ["none"];
+  return Array.from(line.matchAll(/\bS\d+\b/g), (match) => match[0]);
+}
+
+function parseMarkdownItinerary(text: string, fallbackSources: string[]): Itinerary | null {
+  const title = text.match(/^#{1,4}\s+(.+)$/m)?.[1].replace(/\*\*/g, "").trim() || "Itinerary";
+  const days: ItineraryDay[] = [];
+  const transfers: TransferLeg[] = [];
+  const transportNotes: string[] = [];
+  const tips: Itinerary["tips"] = [];
+  let section: "table" | "transfers" | "transport" | "tips" = "table";
+
+  for (const line of text.split("\n")) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    const heading = trimmed.replace(/^#+\s*/, "").replace(/\*\*/g, "").toLowerCase();
+    if (TRANSFERS_HEADING.test(heading)) {
+      section = "transfers";
+      continue;
+    }
+    if (TRANSPORT_HEADING.test(heading)) {
+      section = "transport";
+      continue;
+    }
+    if (TIPS_HEADING.test(heading)) {
+      section = "tips";
+      continue;
+    }
+
+    if (trimmed.startsWith("|")) {
+      const cells = splitRow(trimmed);
+      if (cells.every((cell) => /^:?-{3,}:?$/.test(cell))) continue;
+
+      const dayMatch = cells[0].replace(/\*\*/g, "").match(DAY_CELL);
+      if (dayMatch && cells.length >= 4) {
+        days.push({
+          day: Number(dayMatch[1]),
+          city: dayMatch[2]?.trim() || undefined,
+          theme: dayMatch[3]?.trim() || undefined,
+          morning: splitCell(cells[1]),
+          afternoon: splitCell(cells[2]),
+          evening: splitCell(cells[3])
+        });
+      } else if (section === "tips" && cells.length >= 2 && !TIP_HEADER.test(cells[0])) {
+        tips.push({ label: cells[0], details: splitCell(cells[1]) });
+      }
+      continue;
+    }
+
+    const legMatch = trimmed.match(TRANSFER_LINE);
+    if (section === "transfers" && legMatch) {
+      transfers.push({
+        day: Number(legMatch[1]),
+        from: legMatch[2],
+        to: legMatch[3],
+        mode: legMatch[4],
+        notes: legMatch[5]
+      });
+      continue;
+    }
+
+    if (section === "transport" && /^[-*]\s+/.test(trimmed)) {
+      transportNotes.push(trimmed.replace(/^[-*]\s+/, ""));
+    }
+  }
+
+  if (days.length === 0) return null;
+
+  const sources = parseSourcesLine(text);
+
+  return {
+    title,
+    days,
+    transfers,
+    transportNotes,
+    tips,
+    sources: sources.length > 0 ? sources : fallbackSources
+  };
+}
+
+export function parseItinerary(text: string, fallbackSources: string[]) {
+  const parsed = extractJson(text);
+  const fromJson = parsed ? normalizeItinerary(parsed, fallbackSources) : null;
+  if (fromJson) {
+    return { itinerary: fromJson, format: "json" as const };
+  }
+
+  const fromMarkdown = parseMarkdownItinerary(text, fallbackSources);
+  if (fromMarkdown) {
+    return { itinerary: fromMarkdown, format: "markdown" as const };
+  }
+
+  return null;
+}
+
+export function validateItinerary(
+  itinerary: Itinerary,
+  expected: { days: number; sources: string[] }
+): Itinerary | null {
+  const seen = new Set<number>();
+  const days = [...itinerary.days]
+    .sort((a, b) => a.day - b.day)
+    .filter((day) => {
+      if (day.day < 1 || seen.has(day.day)) return false;
+      seen.add(day.day);
+      return day.morning.length + day.afternoon.length + day.evening.length > 0;
+    })
+    .slice(0, expected.days);
+
+  // A short plan is not a shorter trip: reject it rather than silently
+  // returning fewer days than were asked for. Days must also run 1, 2, 3…
+  // so a skipped (or empty) day is not hidden by the renumbered table.
+  if (days.length < expected.days) return null;
+  if (days.some((day, index) => day.day !== index + 1)) return null;
+
+  const lastDay = days[days.length - 1].day;
+  const transfers = itinerary.transfers.filter(
+    (leg) => leg.from && leg.to && leg.day >= 1 && leg.day <= lastDay
+  );
+
+  // Citing only ids that were never offered is no citation at all: the plan
+  // is kept but listed as unsourced, not credited to every source.
+  const allowed = new Set([...expected.sources, "none"]);
+  const sources = itinerary.sources.filter((source) => allowed.has(source));
+
+  return {
+    ...itinerary,
+    days,
+    transfers,
+    sources: sources.length > 0 ? sources : ["none"]
+  };
+}
+
+// Applies `fn` to every free-text field, e.g. to filter inline [S#] markers
+// the same way as in the answer text.
+export function mapItineraryText(itinerary: Itinerary, fn: (text: string) => string): Itinerary {
+  const list = (items: string[]) => items.map(fn);
+  return {
+    ...itinerary,
+    title: fn(itinerary.title),
+    days: itinerary.days.map((day) => ({
+      ...day,
+      theme: day.theme === undefined ? undefined : fn(day.theme),
+      morning: list(day.morning),
+      afternoon: list(day.afternoon),
+      evening: list(day.evening)
+    })),
+    transfers: itinerary.transfers.map((leg) => ({
+      ...leg,
+      mode: fn(leg.mode),
+      notes: leg.notes === undefined ? undefined : fn(leg.notes)
+    })),
+    transportNotes: list(itinerary.transportNotes),
+    tips: itinerary.tips.map((tip) => ({ label: fn(tip.label), details: list(tip.details) }))
+  };
+}
+
+export function itineraryToMarkdown(
+  itinerary: Itinerary,
+  labels = ITINERARY_LABELS.en
+) {
+  const header = `### ${itinerary.title}`;
+  const tableHeader = [
+    `| ${labels.day} | ${labels.morning} | ${labels.afternoon} | ${labels.evening} |`,
+    "| --- | --- | --- | --- |"
+  ].join("\n");
+  const rows = itinerary.days.map((day) => {
+    const cityLabel = day.city ? ` (${day.city})` : "";
+    const dayLabel = `${labels.day} ${day.day}${cityLabel}${day.theme ? ` — ${day.theme}` : ""}`;
+    const formatCell = (items: string[]) =>
+      items.length === 0 ? "—" : items.map((item) => `• ${item}`).join("<br>");
+    return `| ${dayLabel} | ${formatCell(day.morning)} | ${formatCell(day.afternoon)} | ${formatCell(day.evening)} |`;
+  });
+
+  const sections: string[] = [];
+  if (itinerary.transfers.length > 0) {
+    sections.push(
+      [
+        `**${labels.transfers}**`,
+        ...itinerary.transfers.map((leg) => {
+          const notes = leg.notes ? ` — ${leg.notes}` : "";
+          return `- ${labels.day} ${leg.day}: ${leg.from} → ${leg.to} · ${leg.mode}${notes}`;
+        })
+      ].join("\n")
+    );
+  }
+
+  if (itinerary.transportNotes.length > 0) {
+    sections.push(
+      [
+        `**${labels.transportNotes}**`,
+        ...itinerary.transportNotes.map((note) => `- ${note}`)
+      ].join("\n")
+    );
+  }
+
+  if (itinerary.tips.length > 0) {
+    const tipHeader = `| ${labels.tip} | ${labels.details} |\n| --- | --- |`;
+    const tipRows = itinerary.tips.map((tip) => {
+      const detail = tip.details.length > 0
+        ? tip.details.map((item) => `• ${item}`).join("<br>")
+        : "—";
+      return `| ${tip.label} | ${detail} |`;
+    });
+    sections.push([`**${labels.practicalTips}**`, tipHeader, ...tipRows].join("\n"));
+  }
+
+  const sourcesLine = itinerary.sources.length === 0 || itinerary.sources.includes("none")
+    ? "Sources: none"
+    : `Sources: ${itinerary.sources.map((source) => `[${source}]`).join(" ")}`;
+
+  return [header, "", tableHeader, ...rows, "", ...sections, "", sourcesLine]
+    .filter((part) => part !== "")
+    .join("\n");
+}
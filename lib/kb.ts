@@ -0,0 +1,203 @@
+import { createHash } from "node:crypto";
+import { parse as parseYaml } from "yaml";
+import { detectCities } from "./query";
+import type { SourceRecord } from "./rag";
+
+export type KbIssue = {
+  file: string;
+  message: string;
+};
+
+export type KbDiff = {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: string[];
+};
+
+// Word 5-gram overlap above which two KB files count as near-duplicates.
+const NEAR_DUPLICATE_SIMILARITY = 0.8;
+const SHINGLE_SIZE = 5;
+
+export function slugify(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "");
+}
+
+function splitFrontmatter(raw: string) {
+  const text = raw.replace(/^\uFEFF/, "");
+  if (!text.startsWith("---")) return { yaml: null, body: text };
+  const match = text.match(/^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/);
+  if (!match) return { yaml: undefined, body: text };
+  return { yaml: match[1], body: text.slice(match[0].length) };
+}
+
+function extractTitle(body: string) {
+  const match = body.match(/^#\s+(.+)$/m);
+  if (!match) return { title: null, body };
+  return { title: match[1].trim(), body: body.replace(match[0], "") };
+}
+
+function stringList(value: unknown) {
+  if (typeof value === "string") {
+    return value.split(",").map((item) => item.trim()).filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === "string")) {
+    return value.map((item) => item.trim()).filter(Boolean);
+  }
+  return null;
+}
+
+function dateOnly(value: unknown) {
+  const parsed = value instanceof Date ? value.getTime() : Date.parse(String(value));
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString().slice(0, 10);
+}
+
+// `file` is the path relative to the KB root; it becomes the source id, so
+// renaming a file shows up as one source removed and another added.
+export function parseKbFile(raw: string, file: string) {
+  const errors: KbIssue[] = [];
+  const fail = (message: string) => errors.push({ file, message });
+
+  const { yaml, body } = splitFrontmatter(raw);
+  let frontmatter: Record<string, unknown> = {};
+  if (yaml === undefined) {
+    fail("frontmatter is not closed with ---");
+  } else if (yaml !== null) {
+    try {
+      const parsed: unknown = parseYaml(yaml);
+      if (parsed !== null && (typeof parsed !== "object" || Array.isArray(parsed))) {
+        fail("frontmatter must be a YAML mapping");
+      } else {
+        frontmatter = (parsed as Record<string, unknown> | null) ?? {};
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message.split("\n")[0] : String(error);
+      fail(`invalid YAML frontmatter: ${message.replace(/:$/, "")}`);
+    }
+  }
+  // Field checks on unreadable frontmatter would only repeat the same problem.
+  if (errors.length > 0) return { source: null, errors };
+
+  const { title: h1Title, body: content } = extractTitle(body);
+  const title = typeof frontmatter.title === "string" ? frontmatter.title.trim() : h1Title;
+  if (!title) fail("title is required (frontmatter or a # heading)");
+
+  const url = frontmatter.url ?? frontmatter.source;
+  if (typeof url !== "string" || !/^https?:\/\/\S+$/i.test(url.trim())) {
+    fail("url is required and must be an http(s) URL");
+  }
+
+  const tags = stringList(frontmatter.tags);
+  if (!tags || tags.length === 0) fail("tags is required: a list of strings");
+
+  const city = frontmatter.city;
+  if (typeof city !== "string" || !city.trim()) {
+    fail("city is required (use Uzbekistan for country-wide notes)");
+  } else if (detectCities(city).length === 0 && city.trim().toLowerCase() !== "uzbekistan") {
+    fail(`city "${city}" is not a known city`);
+  }
+
+  const lastVerified = frontmatter.lastVerified ?? frontmatter.last_verified;
+  if (lastVerified !== undefined && dateOnly(lastVerified) === null) {
+    fail("lastVerified must be a date (YYYY-MM-DD)");
+  }
+
+  if (!content.trim()) fail("has no content");
+
+  if (errors.length > 0 || !title || typeof url !== "string" || !tags || typeof city !== "string") {
+    return { source: null, errors };
+  }
+
+  const source: SourceRecord = {
+    id: `kb-${slugify(file)}`,
+    title,
+    url: url.trim(),
+    content: content.trim(),
+    tags,
+    city: city.trim(),
+    lastVerified: lastVerified === undefined ? undefined : dateOnly(lastVerified) ?? undefined
+  };
+  return { source, errors };
+}
+
+// Fields that became required after the first KB records were ingested; a
+// record that predates them is compared without them.
+const BACKFILLED_FIELDS = ["tags", "city"] as const;
+
+// Hashes what ingestion controls, not `fetchedAt`, so an unchanged file keeps
+// its original fetch date.
+export function contentHash(source: SourceRecord, omit: readonly string[] = []) {
+  const { title, url, content, tags, city, lastVerified } = source;
+  const fields: Record<string, unknown> = {
+    title,
+    url,
+    content,
+    tags: tags ?? [],
+    city: city ?? null,
+    lastVerified: lastVerified ?? null
+  };
+  for (const field of omit) delete fields[field];
+  return createHash("sha256").update(JSON.stringify(fields)).digest("hex");
+}
+
+export function duplicateIds(entries: Array<{ file: string; source: SourceRecord }>) {
+  const byId = new Map<string, string[]>();
+  for (const { file, source } of entries) {
+    byId.set(source.id, [...(byId.get(source.id) ?? []), file]);
+  }
+  return Array.from(byId.entries())
+    .filter(([, files]) => files.length > 1)
+    .map(([id, files]) => ({ file: files.join(", "), message: `files share the id ${id}` }));
+}
+
+function shingles(content: string) {
+  const words = content.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const set = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    set.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return set;
+}
+
+export function nearDuplicates(entries: Array<{ file: string; source: SourceRecord }>) {
+  const sets = entries.map((entry) => shingles(entry.source.content));
+  const pairs: Array<{ files: [string, string]; similarity: number }> = [];
+
+  for (let i = 0; i < entries.length; i += 1) {
+    for (let j = i + 1; j < entries.length; j += 1) {
+      const [small, large] = sets[i].size <= sets[j].size ? [sets[i], sets[j]] : [sets[j], sets[i]];
+      if (small.size === 0) continue;
+      let shared = 0;
+      for (const shingle of small) if (large.has(shingle)) shared += 1;
+      const similarity = shared / (sets[i].size + sets[j].size - shared);
+      if (similarity >= NEAR_DUPLICATE_SIMILARITY) {
+        pairs.push({ files: [entries[i].file, entries[j].file], similarity: Math.round(similarity * 100) / 100 });
+      }
+    }
+  }
+
+  return pairs;
+}
+
+export function diffSources(previous: SourceRecord[], next: SourceRecord[]): KbDiff {
+  const before = new Map(previous.map((source) => [source.id, source]));
+  const after = new Set(next.map((source) => source.id));
+  const diff: KbDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const source of next) {
+    const old = before.get(source.id);
+    if (old === undefined) {
+      diff.added.push(source.id);
+      continue;
+    }
+    const omit = BACKFILLED_FIELDS.filter((field) => old[field] === undefined);
+    if (contentHash(old, omit) !== contentHash(source, omit)) diff.changed.push(source.id);
+    else diff.unchanged.push(source.id);
+  }
+  diff.removed = previous.filter((source) => !after.has(source.id)).map((source) => source.id);
+
+  return diff;
+}
@@ -0,0 +1,170 @@
+import { sql, type VercelPoolClient } from "@vercel/postgres";
+import { createHash } from "node:crypto";
+import fs from "fs";
+import path from "path";
+
+export type Migration = {
+  version: number;
+  name: string;
+  file: string;
+  sql: string;
+  checksum: string;
+};
+
+// The subset of a Postgres connection the runner needs; satisfied by a
+// @vercel/postgres pool client and by PGlite. `exec` may run several
+// statements, `query` runs exactly one.
+export type MigrationClient = {
+  exec(text: string): Promise<unknown>;
+  query(text: string, params?: unknown[]): Promise<{ rows: Record<string, unknown>[] }>;
+};
+
+export type MigrationStatus = {
+  applied: number[];
+  pending: Migration[];
+  changed: Migration[];
+};
+
+const FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+// Arbitrary key shared by every instance so only one runs migrations at a time.
+const LOCK_KEY = 72_530_117;
+
+export function migrationsDir() {
+  return path.join(process.cwd(), "migrations");
+}
+
+export function loadMigrations(dir = migrationsDir()): Migration[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const migrations = fs
+    .readdirSync(dir)
+    .map((file) => ({ file, match: file.match(FILE_PATTERN) }))
+    .filter((item): item is { file: string; match: RegExpMatchArray } => item.match !== null)
+    .map(({ file, match }) => {
+      const text = fs.readFileSync(path.join(dir, file), "utf-8");
+      return {
+        version: Number(match[1]),
+        name: match[2],
+        file,
+        sql: text,
+        checksum: createHash("sha256").update(text).digest("hex")
+      };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  const duplicate = migrations.find((item, index) => migrations[index - 1]?.version === item.version);
+  if (duplicate) {
+    throw new Error(`Duplicate migration version ${duplicate.version}.`);
+  }
+  return migrations;
+}
+
+// PGlite has exec(); a pooled Postgres client runs multi-statement SQL
+// through a query() without parameters instead.
+export function poolMigrationClient(client: VercelPoolClient): MigrationClient {
+  return {
+    exec: (text) => client.query(text),
+    query: (text, params) => client.query(text, params)
+  };
+}
+
+async function ensureMigrationsTable(client: MigrationClient) {
+  await client.exec(`
+    CREATE TABLE IF NOT EXISTS migrations (
+      version int primary key,
+      name text not null,
+      checksum text not null,
+      applied_at timestamptz not null default now()
+    );
+  `);
+}
+
+export async function migrationStatus(
+  client: MigrationClient,
+  migrations: Migration[]
+): Promise<MigrationStatus> {
+  await ensureMigrationsTable(client);
+  const { rows } = await client.query("SELECT version, checksum FROM migrations ORDER BY version;");
+  const applied = new Map(rows.map((row) => [Number(row.version), String(row.checksum)]));
+
+  return {
+    applied: Array.from(applied.keys()),
+    pending: migrations.filter((migration) => !applied.has(migration.version)),
+    changed: migrations.filter(
+      (migration) =>
+        applied.has(migration.version) && applied.get(migration.version) !== migration.checksum
+    )
+  };
+}
+
+// Each migration runs in its own transaction together with its bookkeeping
+// row, so a failure leaves the database at the previous version.
+export async function runMigrations(client: MigrationClient, migrations: Migration[]) {
+  await client.query("SELECT pg_advisory_lock($1);", [LOCK_KEY]);
+  try {
+    const status = await migrationStatus(client, migrations);
+    if (status.changed.length > 0) {
+      throw new Error(
+        `Applied migrations were edited: ${status.changed.map((item) => item.file).join(", ")}. Add a new migration instead.`
+      );
+    }
+
+    for (const migration of status.pending) {
+      await client.exec("BEGIN;");
+      try {
+        await client.exec(migration.sql);
+        await client.query("INSERT INTO migrations (version, name, checksum) VALUES ($1, $2, $3);", [
+          migration.version,
+          migration.name,
+          migration.checksum
+        ]);
+        await client.exec("COMMIT;");
+      } catch (error) {
+        await client.exec("ROLLBACK;");
+        throw new Error(
+          `Migration ${migration.file} failed: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return status.pending;
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1);", [LOCK_KEY]);
+  }
+}
+
+let schemaChecked: Promise<void> | null = null;
+const SCHEMA_BEHIND = "SCHEMA_BEHIND";
+const UNDEFINED_TABLE = "42P01";
+
+export function isSchemaBehind(error: unknown) {
+  return error instanceof Error && (error as Error & { code?: string }).code === SCHEMA_BEHIND;
+}
+
+// Stores call this before their first query instead of creating tables on
+// the fly. The check runs once per process; a failed check is retried on the
+// next call so an instance recovers once `npm run migrate` has been run.
+export function ensureSchema() {
+  schemaChecked ??= (async () => {
+    const { rows } = await sql.query(
+      "SELECT coalesce(max(version), 0) AS version FROM migrations;"
+    ).catch((error) => {
+      // Only a missing `migrations` table means "never migrated"; connection
+      // and permission errors surface as themselves.
+      if ((error as { code?: string } | null)?.code === UNDEFINED_TABLE) return { rows: [{ version: 0 }] };
+      throw error;
+    });
+    const current = Number(rows[0]?.version ?? 0);
+    const pending = loadMigrations().filter((migration) => migration.version > current);
+    if (pending.length > 0) {
+      throw Object.assign(
+        new Error(`Database schema is behind by ${pending.length} migration(s); run \`npm run migrate\`.`),
+        { code: SCHEMA_BEHIND }
+      );
+    }
+  })().catch((error) => {
+    schemaChecked = null;
+    throw error;
+  });
+  return schemaChecked;
+}
@@ -0,0 +1,150 @@
+import fs from "fs";
+import path from "path";
+import type { ChatMessage, CompletionProvider, CompletionRequest } from "./provider";
+
+export type MockFixture = {
+  match: string;
+  response: string;
+};
+
+type PromptSource = {
+  id: string;
+  title: string;
+  content: string;
+};
+
+const encoder = new TextEncoder();
+
+export function loadMockFixtures(filePath?: string): MockFixture[] {
+  if (!filePath) return [];
+  const resolved = path.resolve(process.cwd(), filePath);
+  if (!fs.existsSync(resolved)) return [];
+
+  try {
+    const parsed = JSON.parse(fs.readFileSync(resolved, "utf-8"));
+    return Array.isArray(parsed)
+      ? parsed.filter(
+          (item) => typeof item?.match === "string" && typeof item?.response === "string"
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function promptSources(messages: ChatMessage[]): PromptSource[] {
+  const context = messages.find(
+    (message) => message.role === "system" && message.content.startsWith("Context sources:")
+  );
+  if (!context) return [];
+
+  // Headers read "[S1] Title (url)" or "[S1] Title (url, last verified ...)".
+  return Array.from(context.content.matchAll(/^\[(S\d+)\] (.+?) \(\S+?(?:, [^)\n]*)?\)\n([^\n]*)/gm)).map(
+    (match) => ({ id: match[1], title: match[2], content: match[3] })
+  );
+}
+
+function firstSentence(text: string) {
+  return text.split(/(?<=[.!?])\s+/)[0].replace(/[.!?]$/, "");
+}
+
+// Echoes the retrieved sources back with their ids and deliberately leaves
+// out the "Sources:" line so the route's fallback is exercised.
+function chatAnswer(sources: PromptSource[]) {
+  if (sources.length === 0) {
+    return "I could not find this in the provided sources.\n\nSources: none";
+  }
+  return sources
+    .slice(0, 2)
+    .map((source) => `${firstSentence(source.content)} [${source.id}].`)
+    .join(" ");
+}
+
+function itineraryAnswer(prompt: string, sources: PromptSource[]) {
+  const days = Number(prompt.match(/Include exactly (\d+) entries/)?.[1]) || 1;
+  const stops = Array.from(prompt.matchAll(/(?:: | → )([^→:]+?) \((\d+) nights?\)/g)).map(
+    (match) => ({ city: match[1], nights: Number(match[2]) })
+  );
+  const single = prompt.match(/Create a \d+-day itinerary for (.+?)\. /)?.[1];
+  const route = stops.length > 0 ? stops : [{ city: single ?? "Tashkent", nights: days }];
+  const legs = (prompt.match(/Plan these intercity transfers: (.+?)\. /)?.[1] ?? "")
+    .split(", ")
+    .map((leg) => leg.split(" → "))
+    .filter((leg) => leg.length === 2);
+
+  const cityByDay = route.flatMap((stop) => Array<string>(stop.nights).fill(stop.city));
+  const ids = sources.map((source) => source.id);
+  const cite = (day: number) => (ids.length > 0 ? ` [${ids[(day - 1) % ids.length]}]` : "");
+
+  const itinerary = {
+    title: `${days}-day trip: ${route.map((stop) => stop.city).join(" → ")}`,
+    days: Array.from({ length: days }, (_, index) => {
+      const day = index + 1;
+      const city = cityByDay[index] ?? cityByDay[cityByDay.length - 1];
+      const source = sources[index % Math.max(1, sources.length)];
+      return {
+        day,
+        city,
+        theme: source ? source.title : `Explore ${city}`,
+        morning: [`${source ? firstSentence(source.content) : `Walk around ${city}`}${cite(day)}`],
+        afternoon: [`Visit the old town of ${city}`],
+        evening: [`Dinner in ${city}`]
+      };
+    }),
+    transfers: legs.map(([from, to]) => ({
+      day: cityByDay.includes(to) ? cityByDay.indexOf(to) + 1 : days,
+      from,
+      to,
+      mode: "train",
+      notes: "Book ahead; check the timetable."
+    })),
+    transportNotes: ["Use licensed taxis or ride-hailing apps within cities."],
+    tips: [{ label: "Tickets", details: ["Buy train tickets in advance."] }],
+    sources: ids.length > 0 ? ids : ["none"]
+  };
+
+  return JSON.stringify(itinerary);
+}
+
+function answerFor(request: CompletionRequest, fixtures: MockFixture[]) {
+  const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+  const prompt = lastUser?.content ?? "";
+  const fixture = fixtures.find((item) => prompt.includes(item.match));
+  if (fixture) return fixture.response;
+
+  const sources = promptSources(request.messages);
+  return prompt.includes("Respond with ONLY a JSON object")
+    ? itineraryAnswer(prompt, sources)
+    : chatAnswer(sources);
+}
+
+function streamBody(text: string) {
+  const pieces = text.match(/\S+\s*/g) ?? [];
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const piece of pieces) {
+        const chunk = { choices: [{ delta: { content: piece } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    }
+  });
+}
+
+// Deterministic stand-in for the model: recorded fixtures first (matched by
+// substring of the last user message), otherwise a scripted stub.
+export function createMockProvider(fixtures: MockFixture[] = []): CompletionProvider {
+  return {
+    name: "mock",
+    async complete(request) {
+      const text = answerFor(request, fixtures);
+      const response = request.stream
+        ? new Response(streamBody(text), {
+            headers: { "Content-Type": "text/event-stream" }
+          })
+        : Response.json({ choices: [{ message: { role: "assistant", content: text } }] });
+      return { response, model: "mock" };
+    }
+  };
+}
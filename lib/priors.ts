@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import { summarizeFeedback } from "./analytics";
+import type { FeedbackRating } from "./feedback";
+
+export type SourcePrior = {
+  helpful: number;
+  notHelpful: number;
+  prior: number;
+};
+
+type PriorsArtifact = {
+  version: number;
+  createdAt: string;
+  feedbackCount: number;
+  priors: Record<string, SourcePrior>;
+};
+
+const PRIORS_VERSION = 1;
+// Pseudo-votes that pull the prior towards 0, so one or two ratings barely
+// move a source.
+const PRIOR_SMOOTHING = 5;
+// Largest share by which the prior can raise or lower a retrieval score.
+// Unrated sources keep a prior of 0, so a capped penalty on a disliked
+// source never buries a new one.
+const MAX_FEEDBACK_BOOST = 0.2;
+
+let cachedPriors: Map<string, number> | null = null;
+
+export function priorsPath() {
+  return path.join(process.cwd(), "data", "priors.json");
+}
+
+// Ratings are attributed through the cited page URLs (analytics already drops
+// section anchors), then mapped to the source ids used by the index. Feedback on URLs
+// no longer in sources.json is dropped.
+export function computePriors(
+  records: FeedbackRating[],
+  sources: Array<{ id: string; url: string }>
+): Record<string, SourcePrior> {
+  const idsByUrl = new Map<string, string[]>();
+  for (const source of sources) {
+    idsByUrl.set(source.url, [...(idsByUrl.get(source.url) ?? []), source.id]);
+  }
+
+  const priors: Record<string, SourcePrior> = {};
+  for (const tally of summarizeFeedback(records).bySource) {
+    for (const id of idsByUrl.get(tally.key) ?? []) {
+      const entry = priors[id] ?? { helpful: 0, notHelpful: 0, prior: 0 };
+      entry.helpful += tally.helpful;
+      entry.notHelpful += tally.notHelpful;
+      entry.prior =
+        Math.round(
+          ((entry.helpful - entry.notHelpful) /
+            (entry.helpful + entry.notHelpful + PRIOR_SMOOTHING)) *
+            1000
+        ) / 1000;
+      priors[id] = entry;
+    }
+  }
+
+  return priors;
+}
+
+export function writePriors(priors: Record<string, SourcePrior>, feedbackCount: number) {
+  const artifact: PriorsArtifact = {
+    version: PRIORS_VERSION,
+    createdAt: new Date().toISOString(),
+    feedbackCount,
+    priors
+  };
+  const filePath = priorsPath();
+  fs.writeFileSync(filePath, JSON.stringify(artifact, null, 2));
+  cachedPriors = null;
+  return { filePath, sources: Object.keys(priors).length };
+}
+
+function readPriors() {
+  const filePath = priorsPath();
+  if (!fs.existsSync(filePath)) return new Map<string, number>();
+
+  try {
+    const artifact = JSON.parse(fs.readFileSync(filePath, "utf-8")) as PriorsArtifact;
+    if (artifact.version !== PRIORS_VERSION) return new Map<string, number>();
+    return new Map(Object.entries(artifact.priors ?? {}).map(([id, entry]) => [id, entry.prior]));
+  } catch {
+    return new Map<string, number>();
+  }
+}
+
+export function sourcePriors() {
+  cachedPriors ??= readPriors();
+  return cachedPriors;
+}
+
+export function feedbackBoost(sourceId: string) {
+  const prior = Math.max(-1, Math.min(1, sourcePriors().get(sourceId) ?? 0));
+  return 1 + prior * MAX_FEEDBACK_BOOST;
+}
@@ -0,0 +1,214 @@
+import { createMockProvider, loadMockFixtures } from "./mock";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+export type CompletionRequest = {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  stream: boolean;
+};
+
+// Providers return the raw OpenAI-compatible HTTP response (JSON, or SSE when
+// streaming) so the route parses every provider the same way, plus the model
+// that produced it.
+export type Completion = {
+  response: Response;
+  model: string;
+};
+
+export type CompletionProvider = {
+  name: string;
+  complete(request: CompletionRequest): Promise<Completion>;
+};
+
+type OpenAiConfig = {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  httpReferer?: string;
+  appTitle?: string;
+  timeoutMs?: number;
+};
+
+type RetryOptions = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000
+};
+
+export function buildUrl(baseUrl: string) {
+  const trimmed = baseUrl.replace(/\/$/, "");
+  if (trimmed.endsWith("/v1")) {
+    return `${trimmed}/chat/completions`;
+  }
+  return `${trimmed}/v1/chat/completions`;
+}
+
+function isRetryable(status: number) {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+function retryDelay(attempt: number, response: Response, options: RetryOptions) {
+  const retryAfter = Number(response.headers.get("retry-after"));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) {
+    return Math.min(retryAfter * 1000, options.maxDelayMs);
+  }
+  const backoff = options.baseDelayMs * 2 ** attempt;
+  return Math.min(backoff + Math.random() * options.baseDelayMs, options.maxDelayMs);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// The timeout covers the wait for response headers; once the model starts
+// answering, a long stream is left to finish.
+export function createOpenAiProvider(config: OpenAiConfig): CompletionProvider {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Authorization: `Bearer ${config.apiKey}`
+  };
+
+  if (config.httpReferer) {
+    headers["HTTP-Referer"] = config.httpReferer;
+  }
+
+  if (config.appTitle) {
+    headers["X-Title"] = config.appTitle;
+  }
+
+  return {
+    name: config.model,
+    async complete(request) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+      try {
+        const response = await fetch(buildUrl(config.baseUrl), {
+          method: "POST",
+          headers,
+          signal: controller.signal,
+          body: JSON.stringify({
+            model: config.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: request.stream
+          })
+        });
+        return { response, model: config.model };
+      } catch (error) {
+        const timedOut = controller.signal.aborted;
+        const message = timedOut
+          ? `Model ${config.model} timed out.`
+          : `Model ${config.model} unreachable: ${error instanceof Error ? error.message : String(error)}`;
+        return {
+          response: new Response(message, { status: timedOut ? 504 : 502 }),
+          model: config.model
+        };
+      } finally {
+        clearTimeout(timer);
+      }
+    }
+  };
+}
+
+// Tries each provider in order. 408/429/5xx and network failures are retried
+// with exponential backoff (honouring Retry-After) before falling back to the
+// next provider; other client errors fall back immediately.
+export function createFallbackProvider(
+  providers: CompletionProvider[],
+  retry: Partial<RetryOptions> = {}
+): CompletionProvider {
+  const options = { ...DEFAULT_RETRY, ...retry };
+
+  return {
+    name: providers.map((provider) => provider.name).join(","),
+    async complete(request) {
+      let last: Completion | null = null;
+
+      for (const provider of providers) {
+        for (let attempt = 0; attempt <= options.maxRetries; attempt += 1) {
+          const completion = await provider.complete(request);
+          if (completion.response.ok) {
+            return completion;
+          }
+
+          await last?.response.body?.cancel();
+          last = completion;
+          const status = completion.response.status;
+          const retryable = isRetryable(status) && attempt < options.maxRetries;
+          console.warn(
+            `Model ${provider.name} failed with ${status}; ${retryable ? `retry ${attempt + 1}/${options.maxRetries}` : "falling back"}.`
+          );
+          if (!retryable) break;
+
+          await sleep(retryDelay(attempt, completion.response, options));
+        }
+      }
+
+      if (!last) {
+        throw new Error("No completion providers configured.");
+      }
+      return last;
+    }
+  };
+}
+
+function splitList(value?: string) {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function numberEnv(value: string | undefined, fallback: number) {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function resolveProvider(): CompletionProvider | null {
+  if (process.env.AI_PROVIDER === "mock") {
+    return createMockProvider(loadMockFixtures(process.env.AI_MOCK_FIXTURES));
+  }
+
+  const baseUrl = process.env.AI_BASE_URL;
+  const apiKey = process.env.AI_API_KEY;
+  const models = splitList(process.env.AI_MODEL);
+  if (!baseUrl || !apiKey || models.length === 0) {
+    return null;
+  }
+
+  const shared = {
+    httpReferer: process.env.AI_HTTP_REFERER,
+    appTitle: process.env.AI_APP_TITLE,
+    timeoutMs: numberEnv(process.env.AI_TIMEOUT_MS, DEFAULT_TIMEOUT_MS)
+  };
+  const providers = models.map((model) =>
+    createOpenAiProvider({ ...shared, baseUrl, apiKey, model })
+  );
+
+  const fallbackUrl = process.env.AI_FALLBACK_BASE_URL;
+  const fallbackKey = process.env.AI_FALLBACK_API_KEY ?? apiKey;
+  for (const model of splitList(process.env.AI_FALLBACK_MODEL)) {
+    providers.push(
+      createOpenAiProvider({ ...shared, baseUrl: fallbackUrl || baseUrl, apiKey: fallbackKey, model })
+    );
+  }
+
+  return createFallbackProvider(providers, {
+    maxRetries: numberEnv(process.env.AI_MAX_RETRIES, DEFAULT_RETRY.maxRetries)
+  });
+}
@@ -0,0 +1,60 @@
+import { conceptOf } from "./embeddings";
+import { isPlaceToken, tokenize } from "./tokenizer";
+
+export type ConversationTurn = {
+  role: string;
+  content: string;
+};
+
+const MAX_CARRIED_TOPICS = 3;
+// Place tokens that name the whole country or a single sight rather than a
+// city a source could be about.
+const NON_CITY_PLACES = new Set(["uzbekistan", "registan"]);
+
+function placesIn(tokens: string[]) {
+  return Array.from(new Set(tokens.filter(isPlaceToken)));
+}
+
+// Canonical city names mentioned in the text, in order of first mention:
+// "Buxoroda bozor" and "markets in Bukhara" both give ["bukhara"].
+export function detectCities(text: string) {
+  return placesIn(tokenize(text)).filter((place) => !NON_CITY_PLACES.has(place));
+}
+
+function topicsIn(tokens: string[]) {
+  return Array.from(
+    new Set(tokens.filter((token) => !isPlaceToken(token) && conceptOf(token) !== undefined))
+  );
+}
+
+function findRecent(turns: string[][], pick: (tokens: string[]) => string[]) {
+  for (let i = turns.length - 1; i >= 0; i -= 1) {
+    const found = pick(turns[i]);
+    if (found.length > 0) return found;
+  }
+  return [];
+}
+
+// Follow-ups such as "and how long does it take?" name neither a place nor a
+// topic, so retrieval would miss the train discussed a turn earlier. Whatever
+// the latest question leaves out is carried over from the previous user turns.
+export function rewriteQuery(history: ConversationTurn[]) {
+  const userTurns = history.filter((turn) => turn.role === "user");
+  const current = userTurns[userTurns.length - 1]?.content.trim() ?? "";
+  const previous = userTurns.slice(0, -1).map((turn) => tokenize(turn.content));
+  if (!current || previous.length === 0) {
+    return current;
+  }
+
+  const tokens = tokenize(current);
+  const carried: string[] = [];
+
+  if (placesIn(tokens).length === 0) {
+    carried.push(...findRecent(previous, placesIn));
+  }
+  if (topicsIn(tokens).length === 0) {
+    carried.push(...findRecent(previous, topicsIn).slice(0, MAX_CARRIED_TOPICS));
+  }
+
+  return carried.length > 0 ? `${current} ${carried.join(" ")}` : current;
+}
@@ -1,5 +1,23 @@
+import { createHash } from "node:crypto";
 import fs from "fs";
 import path from "path";
+import { readIndexArtifact, writeIndexArtifact } from "./artifact";
+import { chunkMarkdown } from "./chunking";
+import { embedTokens } from "./embeddings";
+import { freshness, verifiedAt } from "./freshness";
+import { feedbackBoost } from "./priors";
+import { detectCities } from "./query";
+import {
+  RETRIEVAL_STRATEGIES,
+  computeTfidfFromCounts,
+  createBm25Retriever,
+  createDenseRetriever,
+  createHybridRetriever,
+  createTfidfRetriever,
+  type RetrievalStrategy,
+  type Retriever
+} from "./retrievers";
+import { tokenize } from "./tokenizer";
 
 export type SourceRecord = {
   id: string;
@@ -7,92 +25,95 @@ export type SourceRecord = {
   url: string;
   content: string;
   tags?: string[];
+  city?: string;
+  lastVerified?: string;
+  fetchedAt?: string;
 };
 
-export type RetrievedChunk = {
+export type ChunkLocation = {
+  section: string[];
+  anchor: string | null;
+  start: number;
+  end: number;
+};
+
+export type RetrievedChunk = ChunkLocation & {
   id: string;
   sourceId: string;
   title: string;
   url: string;
   content: string;
+  city: string | null;
+  tags: string[];
+  verifiedAt: string | null;
+  stale: boolean;
   score: number;
+  relevance: number;
+};
+
+// Cities are canonical place tokens ("bukhara", "fergana"); tags are matched
+// case-insensitively. An empty or missing list does not constrain anything.
+export type RetrievalScope = {
+  cities?: string[];
+  tags?: string[];
 };
 
 type RetrieveOptions = {
   includeKb?: boolean;
   includeWeb?: boolean;
+  // Minimum relevance (0-1), on top of each strategy's own cutoff.
   minScore?: number;
+  strategy?: RetrievalStrategy;
+  feedbackBoost?: boolean;
+  stalePenalty?: boolean;
+  filter?: RetrievalScope;
+  boost?: RetrievalScope;
 };
 
-type Chunk = {
+export type IndexedChunk = ChunkLocation & {
   id: string;
   sourceId: string;
   title: string;
   url: string;
   content: string;
+  city: string | null;
+  tags: string[];
+  verifiedAt: string | null;
   tfidf: Map<string, number>;
   norm: number;
+  termFreq: Map<string, number>;
+  length: number;
+  embedding: Float32Array;
 };
 
-type Index = {
-  chunks: Chunk[];
+export type RetrievalIndex = {
+  chunks: IndexedChunk[];
   idf: Map<string, number>;
+  bm25Idf: Map<string, number>;
+  avgLength: number;
 };
 
-const STOPWORDS = new Set([
-  "a",
-  "an",
-  "and",
-  "are",
-  "as",
-  "at",
-  "be",
-  "but",
-  "by",
-  "for",
-  "from",
-  "has",
-  "he",
-  "in",
-  "is",
-  "it",
-  "its",
-  "of",
-  "on",
-  "or",
-  "that",
-  "the",
-  "to",
-  "was",
-  "were",
-  "will",
-  "with",
-  "you",
-  "your"
-]);
-
-let cachedIndex: Index | null = null;
-
-function tokenize(text: string) {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter((token) => token.length > 2 && !STOPWORDS.has(token));
-}
-
-function chunkContent(source: SourceRecord) {
-  const paragraphs = source.content
-    .split(/\n{2,}/)
-    .map((item) => item.trim())
-    .filter(Boolean);
+type RawChunk = ChunkLocation & {
+  id: string;
+  sourceId: string;
+  title: string;
+  url: string;
+  content: string;
+  city: string | null;
+  tags: string[];
+  verifiedAt: string | null;
+  tokens: string[];
+};
 
-  if (paragraphs.length === 0 && source.content.trim()) {
-    return [source.content.trim()];
-  }
+const CITY_BOOST = 1.5;
+// Chunks about a different city than the one asked for; country-wide chunks
+// (no city) are left alone.
+const OTHER_CITY_PENALTY = 0.7;
+const TAG_BOOST = 1.25;
+// Applied to chunks whose source is past its review window (lib/freshness.ts).
+const STALE_PENALTY = 0.85;
 
-  return paragraphs;
-}
+let cachedIndex: RetrievalIndex | null = null;
 
 function computeIdf(chunks: { tokens: string[] }[]) {
   const docCount = chunks.length || 1;
@@ -106,40 +127,48 @@ function computeIdf(chunks: { tokens: string[] }[]) {
   }
 
   const idf = new Map<string, number>();
+  const bm25Idf = new Map<string, number>();
   for (const [token, count] of df.entries()) {
     idf.set(token, Math.log((docCount + 1) / (count + 1)) + 1);
+    bm25Idf.set(token, Math.log(1 + (docCount - count + 0.5) / (count + 0.5)));
   }
 
-  return idf;
+  return { idf, bm25Idf };
 }
 
-function computeTfidf(tokens: string[], idf: Map<string, number>) {
-  const tf = new Map<string, number>();
+function countTerms(tokens: string[]) {
+  const counts = new Map<string, number>();
   for (const token of tokens) {
-    tf.set(token, (tf.get(token) ?? 0) + 1);
+    counts.set(token, (counts.get(token) ?? 0) + 1);
   }
+  return counts;
+}
 
-  const total = tokens.length || 1;
-  const vector = new Map<string, number>();
-  let norm = 0;
+function sourcesPath() {
+  return path.join(process.cwd(), "data", "sources.json");
+}
 
-  for (const [token, count] of tf.entries()) {
-    const weight = (count / total) * (idf.get(token) ?? 1);
-    vector.set(token, weight);
-    norm += weight * weight;
+function readSourcesFile() {
+  const filePath = sourcesPath();
+  if (!fs.existsSync(filePath)) {
+    return "";
   }
 
-  return { vector, norm: Math.sqrt(norm) };
+  try {
+    return fs.readFileSync(filePath, "utf-8");
+  } catch {
+    return "";
+  }
 }
 
-function loadSources(): SourceRecord[] {
-  const filePath = path.join(process.cwd(), "data", "sources.json");
-  if (!fs.existsSync(filePath)) {
-    return [];
-  }
+function hashSources(raw: string) {
+  return createHash("sha256").update(raw).digest("hex");
+}
+
+function parseSources(raw: string): SourceRecord[] {
+  if (!raw) return [];
 
   try {
-    const raw = fs.readFileSync(filePath, "utf-8");
     const parsed = JSON.parse(raw) as SourceRecord[];
     return Array.isArray(parsed) ? parsed : [];
   } catch {
@@ -147,79 +176,154 @@ function loadSources(): SourceRecord[] {
   }
 }
 
-function buildIndex(): Index {
-  const sources = loadSources();
-  const rawChunks: Array<{
-    id: string;
-    sourceId: string;
-    title: string;
-    url: string;
-    content: string;
-    tokens: string[];
-  }> = [];
+function normalizeTags(tags: string[] | undefined) {
+  return (tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean);
+}
+
+// An explicit `city` wins, then a city-named tag, then the first city in the
+// title ("Tashkent Metro overview"). Sources about the whole country get none.
+function sourceCity(source: SourceRecord) {
+  return (
+    detectCities(source.city ?? "")[0] ??
+    detectCities((source.tags ?? []).join(" "))[0] ??
+    detectCities(source.title)[0] ??
+    null
+  );
+}
+
+function buildRawChunks(sources: SourceRecord[]) {
+  const rawChunks: RawChunk[] = [];
 
   for (const source of sources) {
-    const parts = chunkContent(source);
-    parts.forEach((part, index) => {
+    const city = sourceCity(source);
+    const tags = normalizeTags(source.tags);
+    const verified = verifiedAt(source);
+    chunkMarkdown(source.content).forEach((part, index) => {
       rawChunks.push({
         id: `${source.id}-${index + 1}`,
         sourceId: source.id,
-        title: source.title,
+        title: [source.title, ...part.section].join(" › "),
         url: source.url,
-        content: part,
-        tokens: tokenize(part)
+        content: part.content,
+        city,
+        tags,
+        verifiedAt: verified,
+        section: part.section,
+        anchor: part.anchor,
+        start: part.start,
+        end: part.end,
+        tokens: tokenize(`${part.section.join(" ")} ${part.content}`)
       });
     });
   }
 
-  const idf = computeIdf(rawChunks);
+  return rawChunks;
+}
+
+function buildIndex(sources: SourceRecord[]): RetrievalIndex {
+  const rawChunks = buildRawChunks(sources);
+  const { idf, bm25Idf } = computeIdf(rawChunks);
 
-  const chunks: Chunk[] = rawChunks.map((chunk) => {
-    const { vector, norm } = computeTfidf(chunk.tokens, idf);
+  const chunks: IndexedChunk[] = rawChunks.map((chunk) => {
+    const termFreq = countTerms(chunk.tokens);
+    const { vector, norm } = computeTfidfFromCounts(termFreq, chunk.tokens.length, idf);
     return {
       id: chunk.id,
       sourceId: chunk.sourceId,
       title: chunk.title,
       url: chunk.url,
       content: chunk.content,
+      city: chunk.city,
+      tags: chunk.tags,
+      verifiedAt: chunk.verifiedAt,
+      section: chunk.section,
+      anchor: chunk.anchor,
+      start: chunk.start,
+      end: chunk.end,
       tfidf: vector,
-      norm
+      norm,
+      termFreq,
+      length: chunk.tokens.length,
+      embedding: embedTokens(chunk.tokens)
     };
   });
 
-  return { chunks, idf };
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+
+  return {
+    chunks,
+    idf,
+    bm25Idf,
+    avgLength: chunks.length > 0 ? totalLength / chunks.length : 0
+  };
+}
+
+function loadIndex() {
+  const raw = readSourcesFile();
+  const prebuilt = readIndexArtifact(hashSources(raw));
+  if (prebuilt) {
+    return prebuilt;
+  }
+
+  if (raw) {
+    console.warn("Retrieval index artifact missing or stale; rebuilding from data/sources.json.");
+  }
+  return buildIndex(parseSources(raw));
 }
 
 function getIndex() {
   if (!cachedIndex) {
-    cachedIndex = buildIndex();
+    cachedIndex = loadIndex();
   }
 
   return cachedIndex;
 }
 
-function cosineSimilarity(
-  queryVector: Map<string, number>,
-  queryNorm: number,
-  chunk: Chunk
-) {
-  if (queryNorm === 0 || chunk.norm === 0) return 0;
-
-  let dot = 0;
-  for (const [token, weight] of queryVector.entries()) {
-    const chunkWeight = chunk.tfidf.get(token);
-    if (chunkWeight) {
-      dot += weight * chunkWeight;
-    }
+function resolveStrategy(requested?: RetrievalStrategy): RetrievalStrategy {
+  const configured = requested ?? process.env.RETRIEVAL_STRATEGY;
+  return RETRIEVAL_STRATEGIES.find((strategy) => strategy === configured) ?? "hybrid";
+}
+
+function createRetriever(index: RetrievalIndex, strategy: RetrievalStrategy): Retriever {
+  if (strategy === "tfidf") {
+    return createTfidfRetriever(index);
   }
 
-  return dot / (queryNorm * chunk.norm);
+  const bm25 = createBm25Retriever(index);
+  if (strategy === "bm25") {
+    return bm25;
+  }
+
+  const dense = createDenseRetriever();
+  return strategy === "dense" ? dense : createHybridRetriever([bm25, dense]);
 }
 
-function isKbChunk(chunk: Chunk) {
+function isKbChunk(chunk: { sourceId: string; url: string }) {
   return chunk.sourceId.startsWith("kb-") || chunk.url.includes("/kb/");
 }
 
+function inScope(chunk: IndexedChunk, scope: RetrievalScope = {}) {
+  const cities = scope.cities ?? [];
+  const tags = normalizeTags(scope.tags);
+  return (
+    (cities.length === 0 || (chunk.city !== null && cities.includes(chunk.city))) &&
+    (tags.length === 0 || tags.some((tag) => chunk.tags.includes(tag)))
+  );
+}
+
+function scopeBoost(chunk: IndexedChunk, scope: RetrievalScope = {}) {
+  const cities = scope.cities ?? [];
+  const tags = normalizeTags(scope.tags);
+  let factor = 1;
+  if (cities.length > 0 && chunk.city !== null) {
+    factor *= cities.includes(chunk.city) ? CITY_BOOST : OTHER_CITY_PENALTY;
+  }
+  if (tags.some((tag) => chunk.tags.includes(tag))) {
+    factor *= TAG_BOOST;
+  }
+  return factor;
+}
+
 export function retrieve(
   query: string,
   limit = 4,
@@ -231,23 +335,35 @@ export function retrieve(
   const tokens = tokenize(query);
   if (tokens.length === 0) return [];
 
-  const { vector, norm } = computeTfidf(tokens, index.idf);
   const includeKb = options.includeKb ?? true;
   const includeWeb = options.includeWeb ?? true;
-  const minScore = options.minScore ?? 0.05;
-
-  const scored = index.chunks
-    .filter((chunk) => {
-      const kb = isKbChunk(chunk);
-      if (kb && !includeKb) return false;
-      if (!kb && !includeWeb) return false;
-      return true;
+  const minScore = options.minScore ?? 0;
+  const retriever = createRetriever(index, resolveStrategy(options.strategy));
+
+  const candidates = index.chunks.filter((chunk) => {
+    const kb = isKbChunk(chunk);
+    if (kb && !includeKb) return false;
+    if (!kb && !includeWeb) return false;
+    return inScope(chunk, options.filter);
+  });
+
+  const ranked = retriever.rank(tokens, candidates).filter((item) => item.relevance >= minScore);
+  const boosted = options.feedbackBoost ?? process.env.RETRIEVAL_FEEDBACK_BOOST === "1";
+  const penalized = options.stalePenalty ?? process.env.RETRIEVAL_STALE_PENALTY !== "0";
+  const now = new Date();
+  const scored = ranked
+    .map((item) => {
+      const stale = freshness(item.chunk.verifiedAt, item.chunk.tags, now).stale;
+      return {
+        ...item,
+        stale,
+        score:
+          item.score *
+          scopeBoost(item.chunk, options.boost) *
+          (boosted ? feedbackBoost(item.chunk.sourceId) : 1) *
+          (penalized && stale ? STALE_PENALTY : 1)
+      };
     })
-    .map((chunk) => ({
-      chunk,
-      score: cosineSimilarity(vector, norm, chunk)
-    }))
-    .filter((item) => item.score > minScore)
     .sort((a, b) => b.score - a.score)
     .slice(0, limit);
 
@@ -257,10 +373,53 @@ export function retrieve(
     title: item.chunk.title,
     url: item.chunk.url,
     content: item.chunk.content,
-    score: item.score
+    city: item.chunk.city,
+    tags: item.chunk.tags,
+    verifiedAt: item.chunk.verifiedAt,
+    stale: item.stale,
+    section: item.chunk.section,
+    anchor: item.chunk.anchor,
+    start: item.chunk.start,
+    end: item.chunk.end,
+    score: item.score,
+    relevance: item.relevance
   }));
 }
 
+// Deep link to the chunk's section; `url` itself stays the page URL so
+// feedback and priors keep matching on sources.json entries.
+// Anchors are slugs of our own Markdown headings. Only KB pages are rendered
+// from that Markdown, so an official site (or a snapshot of one) gets its
+// plain URL rather than a fragment that matches nothing on the real page.
+export function chunkUrl(chunk: { sourceId: string; url: string; anchor: string | null }) {
+  return chunk.anchor && isKbChunk(chunk) ? `${chunk.url}#${chunk.anchor}` : chunk.url;
+}
+
+export function officialSources(limit = 5) {
+  const seen = new Set<string>();
+  const links: Array<{ title: string; url: string }> = [];
+
+  for (const chunk of getIndex().chunks) {
+    if (isKbChunk(chunk) || seen.has(chunk.sourceId)) continue;
+    seen.add(chunk.sourceId);
+    const official =
+      /\b(?:official|portal)\b/i.test(chunk.title) || /\.gov(?:\.[a-z]{2})?\//i.test(chunk.url);
+    if (official) {
+      links.push({ title: chunk.title, url: chunk.url });
+    }
+  }
+
+  return links.slice(0, limit);
+}
+
 export function refreshIndex() {
-  cachedIndex = buildIndex();
+  cachedIndex = buildIndex(parseSources(readSourcesFile()));
+}
+
+export function buildIndexArtifact() {
+  const raw = readSourcesFile();
+  const index = buildIndex(parseSources(raw));
+  const result = writeIndexArtifact(index, hashSources(raw));
+  cachedIndex = index;
+  return result;
 }
@@ -0,0 +1,137 @@
+import { sql } from "@vercel/postgres";
+import { ensureSchema } from "./migrations";
+
+export type RateLimitScope = "chat" | "feedback";
+
+export type RateLimitRule = {
+  capacity: number;
+  refillPerSecond: number;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+};
+
+type RateLimitStore = {
+  take(key: string, rule: RateLimitRule): Promise<RateLimitResult>;
+};
+
+type Bucket = {
+  tokens: number;
+  updated: number;
+};
+
+const MAX_MEMORY_BUCKETS = 10000;
+
+function perMinute(value: string | undefined, fallback: number): RateLimitRule {
+  const parsed = Number(value);
+  const limit = value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+  return { capacity: limit, refillPerSecond: limit / 60 };
+}
+
+export function rateLimitRule(scope: RateLimitScope): RateLimitRule {
+  return scope === "chat"
+    ? perMinute(process.env.RATE_LIMIT_CHAT_PER_MINUTE, 10)
+    : perMinute(process.env.RATE_LIMIT_FEEDBACK_PER_MINUTE, 20);
+}
+
+function result(tokens: number, allowed: boolean, rule: RateLimitRule): RateLimitResult {
+  return {
+    allowed,
+    remaining: Math.max(0, Math.floor(tokens)),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil((1 - tokens) / rule.refillPerSecond))
+  };
+}
+
+const buckets = new Map<string, Bucket>();
+
+const memoryStore: RateLimitStore = {
+  async take(key, rule) {
+    const now = Date.now();
+    const bucket = buckets.get(key) ?? { tokens: rule.capacity, updated: now };
+    const tokens = Math.min(
+      rule.capacity,
+      bucket.tokens + ((now - bucket.updated) / 1000) * rule.refillPerSecond
+    );
+    const allowed = tokens >= 1;
+    const next = allowed ? tokens - 1 : tokens;
+
+    buckets.delete(key);
+    buckets.set(key, { tokens: next, updated: now });
+    if (buckets.size > MAX_MEMORY_BUCKETS) {
+      const oldest = buckets.keys().next().value;
+      if (oldest !== undefined) buckets.delete(oldest);
+    }
+
+    return result(next, allowed, rule);
+  }
+};
+
+// One row per key; the refill and the take happen in a single upsert so
+// concurrent instances cannot both spend the last token.
+const postgresStore: RateLimitStore = {
+  async take(key, rule) {
+    await ensureSchema();
+
+    const { rows } = await sql`
+      INSERT INTO rate_limits (key, tokens, allowed, updated_at)
+      VALUES (${key}, ${rule.capacity - 1}, true, now())
+      ON CONFLICT (key) DO UPDATE SET
+        allowed = LEAST(
+          ${rule.capacity}::double precision,
+          rate_limits.tokens + EXTRACT(EPOCH FROM now() - rate_limits.updated_at) * ${rule.refillPerSecond}
+        ) >= 1,
+        tokens = LEAST(
+          ${rule.capacity}::double precision,
+          rate_limits.tokens + EXTRACT(EPOCH FROM now() - rate_limits.updated_at) * ${rule.refillPerSecond}
+        ) - CASE WHEN LEAST(
+          ${rule.capacity}::double precision,
+          rate_limits.tokens + EXTRACT(EPOCH FROM now() - rate_limits.updated_at) * ${rule.refillPerSecond}
+        ) >= 1 THEN 1 ELSE 0 END,
+        updated_at = now()
+      RETURNING tokens, allowed;
+    `;
+
+    return result(Number(rows[0]?.tokens ?? 0), Boolean(rows[0]?.allowed), rule);
+  }
+};
+
+function resolveStore() {
+  return process.env.RATE_LIMIT_STORE === "postgres" && process.env.POSTGRES_URL
+    ? postgresStore
+    : memoryStore;
+}
+
+function trustedProxyHops(value = process.env.TRUSTED_PROXY_HOPS) {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed >= 0 ? parsed : 1;
+}
+
+// Each proxy appends the address it received the request from, so with N
+// trusted proxies the Nth X-Forwarded-For entry from the right is the client
+// as the outermost one saw it. Entries further left are whatever the client
+// sent and are ignored. With no trusted proxy, every header is client-made
+// and all requests share one bucket.
+export function clientKey(req: Request, hops = trustedProxyHops()) {
+  if (hops === 0) return "anonymous";
+  const forwarded = (req.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const client = forwarded.length >= hops ? forwarded[forwarded.length - hops] : forwarded[0];
+  return client || req.headers.get("x-real-ip")?.trim() || "anonymous";
+}
+
+export async function rateLimit(req: Request, scope: RateLimitScope) {
+  const rule = rateLimitRule(scope);
+  const key = `${scope}:${clientKey(req)}`;
+
+  try {
+    return await resolveStore().take(key, rule);
+  } catch {
+    console.warn("Rate limit store unavailable; falling back to memory.");
+    return memoryStore.take(key, rule);
+  }
+}
@@ -0,0 +1,175 @@
+import { dot, embedTokens } from "./embeddings";
+import type { IndexedChunk, RetrievalIndex } from "./rag";
+
+export type RetrievalStrategy = "tfidf" | "bm25" | "dense" | "hybrid";
+
+// `score` orders chunks within one strategy. `relevance` is 0-1 whichever
+// strategy produced it (cosine for tfidf/dense, share of the best possible
+// BM25 score), so one threshold works for all of them.
+export type ScoredChunk = {
+  chunk: IndexedChunk;
+  score: number;
+  relevance: number;
+};
+
+export type Retriever = {
+  name: RetrievalStrategy;
+  rank(tokens: string[], chunks: IndexedChunk[]): ScoredChunk[];
+};
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const TFIDF_MIN_RELEVANCE = 0.05;
+const BM25_MIN_RELEVANCE = 0.25;
+const DENSE_MIN_RELEVANCE = 0.3;
+const DENSE_MIN_TOKENS = 4;
+const RRF_K = 60;
+
+export const RETRIEVAL_STRATEGIES: RetrievalStrategy[] = ["tfidf", "bm25", "dense", "hybrid"];
+
+export function computeTfidfFromCounts(
+  counts: Map<string, number>,
+  total: number,
+  idf: Map<string, number>
+) {
+  const vector = new Map<string, number>();
+  let norm = 0;
+
+  for (const [token, count] of counts.entries()) {
+    const weight = (count / (total || 1)) * (idf.get(token) ?? 1);
+    vector.set(token, weight);
+    norm += weight * weight;
+  }
+
+  return { vector, norm: Math.sqrt(norm) };
+}
+
+export function computeTfidf(tokens: string[], idf: Map<string, number>) {
+  const tf = new Map<string, number>();
+  for (const token of tokens) {
+    tf.set(token, (tf.get(token) ?? 0) + 1);
+  }
+
+  return computeTfidfFromCounts(tf, tokens.length, idf);
+}
+
+function cosineSimilarity(
+  queryVector: Map<string, number>,
+  queryNorm: number,
+  chunk: IndexedChunk
+) {
+  if (queryNorm === 0 || chunk.norm === 0) return 0;
+
+  let dotProduct = 0;
+  for (const [token, weight] of queryVector.entries()) {
+    const chunkWeight = chunk.tfidf.get(token);
+    if (chunkWeight) {
+      dotProduct += weight * chunkWeight;
+    }
+  }
+
+  return dotProduct / (queryNorm * chunk.norm);
+}
+
+function byScore(a: ScoredChunk, b: ScoredChunk) {
+  return b.score - a.score;
+}
+
+export function createTfidfRetriever(index: RetrievalIndex): Retriever {
+  return {
+    name: "tfidf",
+    rank(tokens, chunks) {
+      const { vector, norm } = computeTfidf(tokens, index.idf);
+      return chunks
+        .map((chunk) => {
+          const score = cosineSimilarity(vector, norm, chunk);
+          return { chunk, score, relevance: score };
+        })
+        .filter((item) => item.relevance > TFIDF_MIN_RELEVANCE)
+        .sort(byScore);
+    }
+  };
+}
+
+export function createBm25Retriever(index: RetrievalIndex): Retriever {
+  return {
+    name: "bm25",
+    rank(tokens, chunks) {
+      const queryTerms = Array.from(new Set(tokens));
+      const avgLength = index.avgLength || 1;
+      // A term's BM25 contribution tends to idf * (k1 + 1) as its frequency
+      // grows. Terms the corpus has never seen count as the rarest possible,
+      // so "ski resorts in Norway" can't look relevant on "best" alone.
+      const unseenIdf = Math.log(1 + (index.chunks.length + 0.5) / 0.5);
+      const maxScore = queryTerms.reduce(
+        (sum, term) => sum + (index.bm25Idf.get(term) ?? unseenIdf) * (BM25_K1 + 1),
+        0
+      );
+
+      return chunks
+        .map((chunk) => {
+          let score = 0;
+          for (const term of queryTerms) {
+            const tf = chunk.termFreq.get(term);
+            if (!tf) continue;
+            const idf = index.bm25Idf.get(term) ?? 0;
+            const lengthNorm = 1 - BM25_B + BM25_B * (chunk.length / avgLength);
+            score += idf * ((tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm));
+          }
+          return { chunk, score, relevance: maxScore > 0 ? score / maxScore : 0 };
+        })
+        .filter((item) => item.relevance >= BM25_MIN_RELEVANCE)
+        .sort(byScore);
+    }
+  };
+}
+
+export function createDenseRetriever(): Retriever {
+  return {
+    name: "dense",
+    rank(tokens, chunks) {
+      const queryVector = embedTokens(tokens);
+      const scored: ScoredChunk[] = [];
+      for (const chunk of chunks) {
+        if (chunk.length < DENSE_MIN_TOKENS) continue;
+        const score = dot(queryVector, chunk.embedding);
+        if (score >= DENSE_MIN_RELEVANCE) {
+          scored.push({ chunk, score, relevance: score });
+        }
+      }
+      return scored.sort(byScore);
+    }
+  };
+}
+
+// Fused chunks keep the best relevance any retriever gave them: a strong
+// keyword match is no less relevant for being missed by the dense ranking.
+export function reciprocalRankFusion(rankings: ScoredChunk[][], k = RRF_K) {
+  const fused = new Map<string, ScoredChunk>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((item, rank) => {
+      const existing = fused.get(item.chunk.id);
+      const contribution = 1 / (k + rank + 1);
+      if (existing) {
+        existing.score += contribution;
+        existing.relevance = Math.max(existing.relevance, item.relevance);
+      } else {
+        fused.set(item.chunk.id, { chunk: item.chunk, score: contribution, relevance: item.relevance });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort(byScore);
+}
+
+export function createHybridRetriever(retrievers: Retriever[]): Retriever {
+  return {
+    name: "hybrid",
+    rank(tokens, chunks) {
+      return reciprocalRankFusion(
+        retrievers.map((retriever) => retriever.rank(tokens, chunks))
+      );
+    }
+  };
+}
@@ -0,0 +1,291 @@
+import { createHash } from "node:crypto";
+import { parse, type DefaultTreeAdapterTypes } from "parse5";
+
+type Node = DefaultTreeAdapterTypes.Node;
+type Element = DefaultTreeAdapterTypes.Element;
+
+export type ExtractedPage = {
+  title: string | null;
+  url: string | null;
+  capturedAt: string | null;
+  content: string;
+};
+
+type Block = { text: string; heading: number; linkChars: number };
+
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+  "canvas",
+  "iframe",
+  "object",
+  "form",
+  "button",
+  "select",
+  "input",
+  "textarea",
+  "nav",
+  "aside",
+  "dialog"
+]);
+// Site chrome; only dropped when there is no <main>/<article> to start from,
+// because inside an article a <header> usually holds the title.
+const CHROME_TAGS = new Set(["header", "footer"]);
+const SKIPPED_ROLES = new Set(["navigation", "banner", "contentinfo", "complementary", "search", "dialog"]);
+const BOILERPLATE_PATTERN =
+  /(?:^|[\s_-])(?:nav|navbar|menu|breadcrumbs?|sidebar|footer|header|cookies?|consent|banner|social|share|subscribe|newsletter|advert|ads|popup|modal|skip-link)(?:$|[\s_-])/i;
+const BLOCK_TAGS = new Set([
+  "p",
+  "div",
+  "section",
+  "article",
+  "main",
+  "ul",
+  "ol",
+  "dl",
+  "dt",
+  "dd",
+  "table",
+  "tr",
+  "blockquote",
+  "pre",
+  "figure",
+  "figcaption",
+  "address",
+  "hr"
+]);
+// Blocks that are mostly link text are menus, tag clouds and "related" lists.
+const MAX_LINK_DENSITY = 0.5;
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function attr(element: Element, name: string) {
+  return element.attrs.find((item) => item.name === name)?.value ?? null;
+}
+
+function children(node: Node): Node[] {
+  return "childNodes" in node ? node.childNodes : [];
+}
+
+function find(node: Node, match: (element: Element) => boolean): Element | null {
+  for (const child of children(node)) {
+    if (isElement(child)) {
+      if (match(child)) return child;
+      const found = find(child, match);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function textOf(node: Node): string {
+  if (node.nodeName === "#text" && "value" in node) return node.value;
+  return children(node).map(textOf).join("");
+}
+
+function clean(text: string) {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function isBoilerplate(element: Element, keepChrome: boolean) {
+  if (SKIPPED_TAGS.has(element.tagName)) return true;
+  if (!keepChrome && CHROME_TAGS.has(element.tagName)) return true;
+  if (attr(element, "hidden") !== null || attr(element, "aria-hidden") === "true") return true;
+  if (SKIPPED_ROLES.has(attr(element, "role") ?? "")) return true;
+  return BOILERPLATE_PATTERN.test(`${attr(element, "id") ?? ""} ${attr(element, "class") ?? ""}`);
+}
+
+function collectBlocks(root: Element, keepChrome: boolean) {
+  const blocks: Block[] = [];
+  let buffer = "";
+  let linkChars = 0;
+
+  const flush = (heading = 0) => {
+    const text = clean(buffer).replace(/(?:\s*\|)+$/, "");
+    if (text && text !== "*") blocks.push({ text, heading, linkChars: Math.min(linkChars, text.length) });
+    buffer = "";
+    linkChars = 0;
+  };
+
+  const walk = (node: Node, inLink: boolean) => {
+    if (!isElement(node)) {
+      if (node.nodeName === "#text" && "value" in node) {
+        buffer += node.value;
+        if (inLink) linkChars += clean(node.value).length;
+      }
+      return;
+    }
+    if (isBoilerplate(node, keepChrome)) return;
+
+    const tag = node.tagName;
+    const heading = /^h([1-6])$/.exec(tag);
+    if (heading) {
+      flush();
+      children(node).forEach((child) => walk(child, inLink));
+      flush(Number(heading[1]));
+    } else if (tag === "li") {
+      flush();
+      buffer = "* ";
+      children(node).forEach((child) => walk(child, inLink));
+      flush();
+    } else if (tag === "td" || tag === "th") {
+      children(node).forEach((child) => walk(child, inLink));
+      buffer += " | ";
+    } else if (tag === "br") {
+      buffer += " ";
+    } else if (BLOCK_TAGS.has(tag)) {
+      flush();
+      children(node).forEach((child) => walk(child, inLink));
+      flush();
+    } else {
+      children(node).forEach((child) => walk(child, inLink || tag === "a"));
+    }
+  };
+
+  walk(root, false);
+  flush();
+  return blocks;
+}
+
+// Headings are kept only when some text follows before the next heading of
+// the same or a higher level, so sections emptied by boilerplate removal
+// don't leave a trail of bare titles.
+function dropEmptyHeadings(blocks: Block[]) {
+  const kept: Block[] = [];
+  let pendingLevel = 0;
+  for (let i = blocks.length - 1; i >= 0; i -= 1) {
+    const block = blocks[i];
+    if (block.heading === 0) {
+      kept.push(block);
+      pendingLevel = 7;
+    } else if (block.heading < pendingLevel) {
+      kept.push(block);
+      pendingLevel = block.heading;
+    }
+  }
+  return kept.reverse();
+}
+
+function savedFrom(html: string) {
+  const browser = html.match(/<!--\s*saved from url=\(\d+\)(\S+?)\s*-->/i);
+  const singleFile = html.match(/<!--[^>]*?Page saved with SingleFile[\s\S]*?url:\s*(\S+)[\s\S]*?saved date:\s*([^\n]+?)\s*-->/i);
+  const date = singleFile ? Date.parse(singleFile[2]) : Number.NaN;
+  return {
+    url: singleFile?.[1] ?? browser?.[1] ?? null,
+    capturedAt: Number.isNaN(date) ? null : new Date(date).toISOString()
+  };
+}
+
+// The original URL comes from the browser's "saved from" comment, a SingleFile
+// header, or the page's canonical link, in that order. The caller fills in
+// anything still missing from the snapshot manifest.
+export function extractHtml(html: string): ExtractedPage {
+  const document = parse(html);
+  const headEl = find(document, (element) => element.tagName === "head");
+  const meta = (property: string) => {
+    const element = headEl
+      ? find(
+          headEl,
+          (item) =>
+            item.tagName === "meta" &&
+            (attr(item, "property") === property || attr(item, "name") === property)
+        )
+      : null;
+    return element ? clean(attr(element, "content") ?? "") || null : null;
+  };
+  const canonical = headEl
+    ? find(headEl, (element) => element.tagName === "link" && attr(element, "rel") === "canonical")
+    : null;
+  const titleEl = headEl ? find(headEl, (element) => element.tagName === "title") : null;
+  const saved = savedFrom(html);
+
+  const body = find(document, (element) => element.tagName === "body");
+  const main =
+    find(document, (element) => element.tagName === "main" || attr(element, "role") === "main") ??
+    find(document, (element) => element.tagName === "article");
+  const root = main ?? body;
+  const blocks = root ? collectBlocks(root, main !== null) : [];
+
+  const h1 = blocks.find((block) => block.heading === 1);
+  const title = h1?.text ?? meta("og:title") ?? (titleEl ? clean(textOf(titleEl)) || null : null);
+  const content = dropEmptyHeadings(
+    blocks.filter(
+      (block) =>
+        block !== h1 &&
+        (block.heading > 0 || block.linkChars / block.text.length <= MAX_LINK_DENSITY)
+    )
+  )
+    .map((block) => (block.heading > 0 ? `${"#".repeat(block.heading)} ${block.text}` : block.text))
+    .join("\n\n");
+
+  return {
+    title,
+    url: saved.url ?? (canonical ? attr(canonical, "href") : null) ?? meta("og:url"),
+    capturedAt: saved.capturedAt,
+    content
+  };
+}
+
+function lineKey(line: string) {
+  return line.trim().toLowerCase().replace(/\d+/g, "#");
+}
+
+// PDF text keeps its line breaks (timetables are rows, not prose). Running
+// headers and footers, i.e. lines repeated on most pages, and bare page
+// numbers are removed, and words hyphenated across a line break are rejoined.
+export function cleanPdfText(pages: string[]) {
+  const pageCounts = new Map<string, number>();
+  for (const page of pages) {
+    for (const key of new Set(page.split("\n").map(lineKey).filter(Boolean))) {
+      pageCounts.set(key, (pageCounts.get(key) ?? 0) + 1);
+    }
+  }
+  const repeated = (line: string) =>
+    pages.length >= 3 && (pageCounts.get(lineKey(line)) ?? 0) >= pages.length * 0.6;
+
+  return pages
+    .map((page) =>
+      page
+        .split("\n")
+        .filter((line) => !repeated(line) && !/^\s*(?:page\s*)?\d+(?:\s*(?:\/|of)\s*\d+)?\s*$/i.test(line))
+        .join("\n")
+        .replace(/(\p{L})-\n(\p{Ll})/gu, "$1$2")
+        .replace(/[ \t]+\n/g, "\n")
+        .replace(/\n{3,}/g, "\n\n")
+        .trim()
+    )
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+// Ids come from the URL, so re-ingesting a newer snapshot of the same page
+// updates the same source instead of adding another. Different URLs can slug
+// alike (query strings, truncation); a taken id gets a suffix from the URL's
+// hash so neither source overwrites the other.
+export function snapshotId(url: string, taken: Set<string> = new Set()) {
+  const parsed = new URL(url);
+  const slug = `${parsed.hostname.replace(/^www\./, "")}${parsed.pathname}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/(^-|-$)+/g, "")
+    .slice(0, 80)
+    .replace(/-$/, "");
+  const id = `web-${slug}`;
+  if (!taken.has(id)) return id;
+  return `${id}-${createHash("sha256").update(normalizeUrl(url)).digest("hex").slice(0, 8)}`;
+}
+
+export function normalizeUrl(url: string) {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = "";
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${parsed.pathname.replace(/\/+$/, "")}${parsed.search}`;
+  } catch {
+    return url.trim();
+  }
+}
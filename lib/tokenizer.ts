@@ -0,0 +1,351 @@
+export type TextLanguage = "en" | "ru" | "uz";
+
+const EN_STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "can",
+  "do",
+  "does",
+  "for",
+  "from",
+  "has",
+  "he",
+  "how",
+  "in",
+  "is",
+  "it",
+  "its",
+  "of",
+  "on",
+  "or",
+  "that",
+  "the",
+  "there",
+  "this",
+  "to",
+  "was",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "will",
+  "with",
+  "you",
+  "your"
+]);
+
+const RU_STOPWORDS = new Set([
+  "без",
+  "был",
+  "была",
+  "были",
+  "было",
+  "быть",
+  "вам",
+  "вас",
+  "все",
+  "всё",
+  "где",
+  "для",
+  "его",
+  "если",
+  "есть",
+  "еще",
+  "ещё",
+  "или",
+  "как",
+  "какие",
+  "какой",
+  "когда",
+  "кто",
+  "куда",
+  "лучше",
+  "мне",
+  "можно",
+  "нам",
+  "нас",
+  "нет",
+  "они",
+  "при",
+  "про",
+  "сколько",
+  "так",
+  "там",
+  "тоже",
+  "что",
+  "чтобы",
+  "это",
+  "этот"
+]);
+
+const UZ_STOPWORDS = new Set([
+  "bilan",
+  "bor",
+  "bu",
+  "edi",
+  "emas",
+  "esa",
+  "ham",
+  "haqida",
+  "kabi",
+  "lekin",
+  "men",
+  "nima",
+  "qancha",
+  "qanday",
+  "qayerda",
+  "qaysi",
+  "shu",
+  "siz",
+  "uchun",
+  "ular",
+  "va",
+  "yoki",
+  "yoq",
+  "билан",
+  "бор",
+  "бу",
+  "ва",
+  "ёки",
+  "йўқ",
+  "лекин",
+  "нима",
+  "қайерда",
+  "қанақа",
+  "қанча",
+  "қандай",
+  "учун",
+  "ҳам"
+]);
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  ў: "o",
+  қ: "q",
+  ғ: "g",
+  ҳ: "h"
+};
+
+// Uzbek Latin, Russian and English spellings of the same place all fold to
+// the English form used across data/sources.json.
+const PLACE_ALIASES: Record<string, string[]> = {
+  tashkent: ["toshkent", "tashkent"],
+  samarkand: ["samarqand", "samarkand"],
+  bukhara: ["buxoro", "bukhoro", "bukhor", "bukhar", "bukhara", "buxara"],
+  khiva: ["xiva", "khiv", "khiva", "hiva"],
+  fergana: ["fargona", "fergona", "fergan", "fergana", "ferghana"],
+  registan: ["registon", "registan"],
+  andijan: ["andijon", "andizhan", "andijan"],
+  kokand: ["qoqon", "kokand"],
+  namangan: ["namangan"],
+  shakhrisabz: ["shahrisabz", "shakhrisabz"],
+  termez: ["termiz", "termez"],
+  urgench: ["urganch", "urgench"],
+  nukus: ["nukus"],
+  uzbekistan: ["ozbekiston", "uzbekistan"]
+};
+
+const aliasLookup = new Map<string, string>();
+for (const [canonical, variants] of Object.entries(PLACE_ALIASES)) {
+  for (const variant of variants) {
+    aliasLookup.set(variant, canonical);
+  }
+}
+
+const RU_SUFFIXES = [
+  "иями",
+  "ями",
+  "ами",
+  "ого",
+  "его",
+  "ому",
+  "ему",
+  "ыми",
+  "ими",
+  "ах",
+  "ях",
+  "ов",
+  "ев",
+  "ом",
+  "ем",
+  "ой",
+  "ей",
+  "ый",
+  "ий",
+  "ая",
+  "яя",
+  "ое",
+  "ее",
+  "ые",
+  "ие",
+  "ую",
+  "юю",
+  "ам",
+  "ям",
+  "а",
+  "я",
+  "у",
+  "ю",
+  "е",
+  "ы",
+  "и",
+  "о",
+  "ь"
+];
+
+// Loanwords that Russian does not decline; stripping "о" or "и" from them
+// would only break the match with their English spelling.
+const RU_INDECLINABLE = new Set(["метро", "такси", "кафе", "кино", "шоссе"]);
+
+const UZ_CYRILLIC_SUFFIXES = ["лари", "лар", "нинг", "даги", "дан", "да", "га", "ни"];
+const UZ_SUFFIXES = ["lari", "lar", "ning", "dagi", "dan", "da", "ga", "ni"];
+
+const CYRILLIC = /[Ѐ-ӿ]/;
+const UZ_CYRILLIC = /[ўқғҳ]/;
+const UZ_APOSTROPHE = /([og])[ʻʼ’‘'`]/g;
+
+function normalizeText(text: string) {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(UZ_APOSTROPHE, "$1")
+    .replace(/[ʻʼ’‘'`]/g, "");
+}
+
+function transliterate(word: string) {
+  let result = "";
+  for (const char of word) {
+    result += CYRILLIC_TO_LATIN[char] ?? char;
+  }
+  return result;
+}
+
+function stems(word: string, suffixes: string[]) {
+  return suffixes
+    .filter((suffix) => word.endsWith(suffix) && word.length - suffix.length >= 3)
+    .map((suffix) => word.slice(0, -suffix.length));
+}
+
+// Place names are looked up after each candidate suffix, so "Самарканда" is
+// not left as "samarkan" because a longer suffix happened to match first.
+// The other language's suffixes are only tried for place names: Uzbek text
+// without ў, қ, ғ or ҳ ("Тошкентдан") reads as Russian.
+function stemCyrillic(word: string, suffixes: string[], otherSuffixes: string[]) {
+  if (RU_INDECLINABLE.has(word)) return word;
+  const own = stems(word, suffixes);
+  for (const stem of [...own, ...stems(word, otherSuffixes)]) {
+    const place = aliasLookup.get(transliterate(stem));
+    if (place) return place;
+  }
+  return own[0] ?? word;
+}
+
+function stemLatin(word: string) {
+  for (const suffix of UZ_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const place = aliasLookup.get(word.slice(0, -suffix.length));
+      if (place) return place;
+    }
+  }
+
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && /(?:ss|us|x|ch|sh|z)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !/(?:ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function stopwordsFor(language: TextLanguage, cyrillic: boolean) {
+  if (language === "uz") return UZ_STOPWORDS;
+  return cyrillic ? RU_STOPWORDS : EN_STOPWORDS;
+}
+
+function foldWord(word: string, language: TextLanguage) {
+  if (CYRILLIC.test(word)) {
+    const stemmed = transliterate(
+      language === "uz"
+        ? stemCyrillic(word, UZ_CYRILLIC_SUFFIXES, RU_SUFFIXES)
+        : stemCyrillic(word, RU_SUFFIXES, UZ_CYRILLIC_SUFFIXES)
+    );
+    return aliasLookup.get(transliterate(word)) ?? aliasLookup.get(stemmed) ?? stemmed;
+  }
+
+  const stemmed = stemLatin(word);
+  return aliasLookup.get(word) ?? aliasLookup.get(stemmed) ?? stemmed;
+}
+
+// Stopwords and Cyrillic suffixes follow the language of the whole text;
+// Latin words in Russian text (names, "Afrosiyob") use the English list.
+export function tokenize(text: string) {
+  const language = detectLanguage(text);
+  const tokens: string[] = [];
+
+  for (const word of normalizeText(text).split(/[^\p{L}\p{N}]+/u)) {
+    if (!word) continue;
+    const stopwords = stopwordsFor(language, CYRILLIC.test(word));
+    if (stopwords.has(word)) continue;
+    const token = foldWord(word, language);
+    if (token.length > 2 && !stopwords.has(token)) {
+      tokens.push(token);
+    }
+  }
+
+  return tokens;
+}
+
+export function isPlaceToken(token: string) {
+  return Object.prototype.hasOwnProperty.call(PLACE_ALIASES, token);
+}
+
+export function detectLanguage(text: string): TextLanguage {
+  const normalized = normalizeText(text);
+  if (CYRILLIC.test(normalized)) {
+    return UZ_CYRILLIC.test(normalized) ? "uz" : "ru";
+  }
+
+  const words = normalized.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+  const uzbekHits = words.filter((word) => UZ_STOPWORDS.has(word)).length;
+  const englishHits = words.filter((word) => EN_STOPWORDS.has(word)).length;
+  return uzbekHits > englishHits || /[og][ʻʼ‘]/.test(text.toLowerCase()) ? "uz" : "en";
+}
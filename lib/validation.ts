@@ -0,0 +1,306 @@
+import { LANGUAGES, type Language } from "./i18n";
+import type { TripStop } from "./itinerary";
+import type { ChatMessage } from "./provider";
+
+export type ChatMode = "chat" | "itinerary";
+export type TripStyle = "relaxed" | "balanced" | "packed";
+export type TripBudget = "budget" | "standard" | "comfort";
+
+export type ChatBody = {
+  mode: ChatMode;
+  messages?: ChatMessage[];
+  city?: string;
+  days?: number;
+  stops?: TripStop[];
+  startCity?: string;
+  endCity?: string;
+  style?: TripStyle;
+  budget?: TripBudget;
+  interests?: string;
+  language?: Language;
+  stream?: boolean;
+};
+
+export type FeedbackSource = { id: string; title: string; url: string };
+
+export type FeedbackCategory =
+  | "wrong_info"
+  | "outdated"
+  | "missing_source"
+  | "too_vague"
+  | "wrong_language";
+
+export type FeedbackBody = {
+  messageId?: string;
+  editToken?: string;
+  rating: 1 | -1;
+  mode?: ChatMode;
+  question?: string;
+  answer?: string;
+  sources?: FeedbackSource[];
+  category?: FeedbackCategory;
+  comment?: string;
+};
+
+export type FieldError = {
+  path: string;
+  message: string;
+};
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: FieldError[] };
+
+export const CITIES = ["Tashkent", "Samarkand", "Bukhara", "Khiva", "Fergana Valley"];
+export const TRIP_STYLES: TripStyle[] = ["relaxed", "balanced", "packed"];
+export const TRIP_BUDGETS: TripBudget[] = ["budget", "standard", "comfort"];
+export const FEEDBACK_CATEGORIES: FeedbackCategory[] = [
+  "wrong_info",
+  "outdated",
+  "missing_source",
+  "too_vague",
+  "wrong_language"
+];
+export const LIMITS = {
+  messages: 50,
+  userMessageLength: 2000,
+  assistantMessageLength: 8000,
+  interestsLength: 500,
+  tripDays: 14,
+  stops: 6,
+  nightsPerStop: 10,
+  feedbackIdLength: 200,
+  feedbackQuestionLength: 4000,
+  feedbackAnswerLength: 20000,
+  feedbackSources: 20,
+  feedbackCommentLength: 1000
+};
+
+const MODES: ChatMode[] = ["chat", "itinerary"];
+const ROLES = ["user", "assistant"];
+
+type Checker = {
+  errors: FieldError[];
+  fail(path: string, message: string): void;
+};
+
+function createChecker(): Checker {
+  const errors: FieldError[] = [];
+  return {
+    errors,
+    fail(path, message) {
+      errors.push({ path, message });
+    }
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(check: Checker, value: unknown, path: string, maxLength: number) {
+  if (value === undefined) return undefined;
+  if (typeof value !== "string") {
+    check.fail(path, "must be a string");
+    return undefined;
+  }
+  if (value.length > maxLength) {
+    check.fail(path, `must be at most ${maxLength} characters`);
+  }
+  return value;
+}
+
+function optionalEnum<T extends string>(check: Checker, value: unknown, path: string, allowed: T[]) {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    check.fail(path, `must be one of ${allowed.join(", ")}`);
+    return undefined;
+  }
+  return value as T;
+}
+
+function optionalInteger(check: Checker, value: unknown, path: string, min: number, max: number) {
+  if (value === undefined) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+    check.fail(path, `must be an integer from ${min} to ${max}`);
+    return undefined;
+  }
+  return value;
+}
+
+function optionalBoolean(check: Checker, value: unknown, path: string) {
+  if (value === undefined) return undefined;
+  if (typeof value !== "boolean") {
+    check.fail(path, "must be a boolean");
+    return undefined;
+  }
+  return value;
+}
+
+function validateMessages(check: Checker, value: unknown, mode: ChatMode | undefined) {
+  if (value === undefined) {
+    if (mode === "chat") check.fail("messages", "is required in chat mode");
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    check.fail("messages", "must be an array");
+    return undefined;
+  }
+  if (mode === "chat" && value.length === 0) {
+    check.fail("messages", "must contain at least one message");
+  }
+  if (value.length > LIMITS.messages) {
+    check.fail("messages", `must contain at most ${LIMITS.messages} messages`);
+  }
+
+  value.forEach((message, index) => {
+    const path = `messages[${index}]`;
+    if (!isRecord(message)) {
+      check.fail(path, "must be an object");
+      return;
+    }
+    if (!ROLES.includes(message.role as string)) {
+      check.fail(`${path}.role`, "must be user or assistant");
+    }
+    if (typeof message.content !== "string") {
+      check.fail(`${path}.content`, "must be a string");
+      return;
+    }
+    if (message.role === "user" && !message.content.trim()) {
+      check.fail(`${path}.content`, "must not be empty");
+    }
+    const max =
+      message.role === "assistant" ? LIMITS.assistantMessageLength : LIMITS.userMessageLength;
+    if (message.content.length > max) {
+      check.fail(`${path}.content`, `must be at most ${max} characters`);
+    }
+  });
+
+  const last = value[value.length - 1];
+  if (mode === "chat" && isRecord(last) && last.role !== "user") {
+    check.fail(`messages[${value.length - 1}].role`, "the last message must be from the user");
+  }
+
+  return value.map((message) => ({
+    role: message?.role,
+    content: message?.content
+  })) as ChatMessage[];
+}
+
+function validateStops(check: Checker, value: unknown) {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length === 0) {
+    check.fail("stops", "must be a non-empty array");
+    return undefined;
+  }
+  if (value.length > LIMITS.stops) {
+    check.fail("stops", `must contain at most ${LIMITS.stops} stops`);
+  }
+
+  const stops = value.map((stop, index) => {
+    const path = `stops[${index}]`;
+    if (!isRecord(stop)) {
+      check.fail(path, "must be an object");
+      return null;
+    }
+    const city = optionalEnum(check, stop.city, `${path}.city`, CITIES);
+    if (stop.city === undefined) check.fail(`${path}.city`, "is required");
+    const nights = optionalInteger(check, stop.nights, `${path}.nights`, 1, LIMITS.nightsPerStop);
+    if (stop.nights === undefined) check.fail(`${path}.nights`, "is required");
+    return city && nights ? { city, nights } : null;
+  });
+
+  const total = stops.reduce((sum, stop) => sum + (stop?.nights ?? 0), 0);
+  if (total > LIMITS.tripDays) {
+    check.fail("stops", `must add up to at most ${LIMITS.tripDays} nights`);
+  }
+
+  return stops.filter((stop): stop is TripStop => stop !== null);
+}
+
+export function validateChatBody(input: unknown): ValidationResult<ChatBody> {
+  const check = createChecker();
+  if (!isRecord(input)) {
+    return { ok: false, errors: [{ path: "$", message: "must be a JSON object" }] };
+  }
+
+  const mode = optionalEnum(check, input.mode, "mode", MODES);
+  if (input.mode === undefined) check.fail("mode", "is required");
+
+  const body: ChatBody = {
+    mode: mode ?? "chat",
+    messages: validateMessages(check, input.messages, mode),
+    city: optionalEnum(check, input.city, "city", CITIES),
+    days: optionalInteger(check, input.days, "days", 1, LIMITS.tripDays),
+    stops: validateStops(check, input.stops),
+    startCity: optionalEnum(check, input.startCity, "startCity", CITIES),
+    endCity: optionalEnum(check, input.endCity, "endCity", CITIES),
+    style: optionalEnum(check, input.style, "style", TRIP_STYLES),
+    budget: optionalEnum(check, input.budget, "budget", TRIP_BUDGETS),
+    interests: optionalString(check, input.interests, "interests", LIMITS.interestsLength),
+    language: optionalEnum(check, input.language, "language", LANGUAGES),
+    stream: optionalBoolean(check, input.stream, "stream")
+  };
+
+  if (mode === "itinerary" && input.city === undefined && input.stops === undefined) {
+    check.fail("city", "city or stops is required in itinerary mode");
+  }
+
+  return check.errors.length > 0 ? { ok: false, errors: check.errors } : { ok: true, value: body };
+}
+
+function validateSources(check: Checker, value: unknown) {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value)) {
+    check.fail("sources", "must be an array");
+    return undefined;
+  }
+  if (value.length > LIMITS.feedbackSources) {
+    check.fail("sources", `must contain at most ${LIMITS.feedbackSources} sources`);
+  }
+
+  return value.flatMap((source, index) => {
+    const path = `sources[${index}]`;
+    if (!isRecord(source)) {
+      check.fail(path, "must be an object");
+      return [];
+    }
+    const id = optionalString(check, source.id, `${path}.id`, 20);
+    const title = optionalString(check, source.title, `${path}.title`, 300);
+    const url = optionalString(check, source.url, `${path}.url`, 2000);
+    if (id === undefined || title === undefined || url === undefined) {
+      check.fail(path, "needs id, title and url strings");
+      return [];
+    }
+    if (!/^https?:\/\//i.test(url)) {
+      check.fail(`${path}.url`, "must be an http(s) URL");
+      return [];
+    }
+    return [{ id, title, url }];
+  });
+}
+
+export function validateFeedbackBody(input: unknown): ValidationResult<FeedbackBody> {
+  const check = createChecker();
+  if (!isRecord(input)) {
+    return { ok: false, errors: [{ path: "$", message: "must be a JSON object" }] };
+  }
+
+  if (input.rating !== 1 && input.rating !== -1) {
+    check.fail("rating", "must be 1 or -1");
+  }
+
+  const body: FeedbackBody = {
+    rating: input.rating === -1 ? -1 : 1,
+    messageId: optionalString(check, input.messageId, "messageId", LIMITS.feedbackIdLength),
+    editToken: optionalString(check, input.editToken, "editToken", LIMITS.feedbackIdLength),
+    mode: optionalEnum(check, input.mode, "mode", MODES),
+    question: optionalString(check, input.question, "question", LIMITS.feedbackQuestionLength),
+    answer: optionalString(check, input.answer, "answer", LIMITS.feedbackAnswerLength),
+    sources: validateSources(check, input.sources),
+    category: optionalEnum(check, input.category, "category", FEEDBACK_CATEGORIES),
+    comment: optionalString(check, input.comment, "comment", LIMITS.feedbackCommentLength)
+  };
+
+  return check.errors.length > 0 ? { ok: false, errors: check.errors } : { ok: true, value: body };
+}
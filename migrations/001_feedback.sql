@@ -0,0 +1,13 @@
+-- IF NOT EXISTS lets databases created before migrations existed adopt this
+-- schema without errors; the same applies to 002-004.
+CREATE TABLE IF NOT EXISTS feedback (
+  id uuid primary key,
+  created_at timestamptz default now(),
+  message_id text,
+  rating int not null,
+  mode text,
+  question text,
+  answer text,
+  sources jsonb,
+  user_agent text
+);
@@ -0,0 +1,4 @@
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS comment text;
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS updated_at timestamptz;
+CREATE INDEX IF NOT EXISTS feedback_message_id_idx ON feedback (message_id);
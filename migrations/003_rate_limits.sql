@@ -0,0 +1,6 @@
+CREATE TABLE IF NOT EXISTS rate_limits (
+  key text primary key,
+  tokens double precision not null,
+  allowed boolean not null,
+  updated_at timestamptz not null default now()
+);
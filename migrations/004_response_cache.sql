@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS response_cache (
+  key text primary key,
+  value jsonb not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+CREATE INDEX IF NOT EXISTS response_cache_expires_at_idx ON response_cache (expires_at);
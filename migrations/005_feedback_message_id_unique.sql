@@ -0,0 +1,10 @@
+-- Keep the latest row for each message_id (by updated_at, then created_at)
+-- so the unique index can be built over data written before it existed.
+DELETE FROM feedback AS older
+USING feedback AS newer
+WHERE older.message_id = newer.message_id
+  AND (COALESCE(older.updated_at, older.created_at), older.id::text) <
+      (COALESCE(newer.updated_at, newer.created_at), newer.id::text);
+
+DROP INDEX IF EXISTS feedback_message_id_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS feedback_message_id_key ON feedback (message_id);
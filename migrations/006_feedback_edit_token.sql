@@ -0,0 +1,4 @@
+-- A random token handed to the client that created a row; updates by
+-- message_id must present it. Rows written before this have none and stay
+-- as they are.
+ALTER TABLE feedback ADD COLUMN IF NOT EXISTS edit_token text;
@@ -0,0 +1,6 @@
+import path from "path";
+import { buildIndexArtifact } from "../lib/rag";
+
+const { filePath, chunks } = buildIndexArtifact();
+
+console.log(`Indexed ${chunks} chunks into ${path.relative(process.cwd(), filePath)}`);
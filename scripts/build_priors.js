@@ -0,0 +1,29 @@
+import fs from "fs";
+import path from "path";
+import { feedbackRating, listFeedbackRatings } from "../lib/feedback";
+import { computePriors, writePriors } from "../lib/priors";
+
+const fromArg = process.argv.find((arg) => arg.startsWith("--from="));
+const MAX_FEEDBACK = 100000;
+
+// Feedback comes from Postgres, or from a JSON file of feedback records (for
+// example the `items` of GET /api/admin/feedback) with --from=path.
+async function loadFeedback() {
+  if (fromArg) {
+    const parsed = JSON.parse(fs.readFileSync(path.resolve(fromArg.slice("--from=".length)), "utf-8"));
+    return (Array.isArray(parsed) ? parsed : parsed.items ?? []).map(feedbackRating);
+  }
+  if (!process.env.POSTGRES_URL) {
+    throw new Error("POSTGRES_URL is not set. Use --from=feedback.json to read an export.");
+  }
+  return listFeedbackRatings({ limit: MAX_FEEDBACK });
+}
+
+const sources = JSON.parse(fs.readFileSync(path.join(process.cwd(), "data", "sources.json"), "utf-8"));
+const feedback = await loadFeedback();
+const priors = computePriors(feedback, sources);
+const { filePath, sources: count } = writePriors(priors, feedback.length);
+
+console.log(
+  `Computed priors for ${count} sources from ${feedback.length} ratings into ${path.relative(process.cwd(), filePath)}`
+);
@@ -1,41 +1,263 @@
 import fs from "fs";
 import path from "path";
+import { sourcePriors } from "../lib/priors";
+import { detectCities } from "../lib/query";
+import { retrieve } from "../lib/rag";
+import { validateChatBody } from "../lib/validation";
 
+const offline = process.argv.includes("--offline") || process.env.EVAL_OFFLINE === "1";
 const apiUrl = process.env.EVAL_API_URL || "http://localhost:3000/api/chat";
+const groundingPolicy = process.env.GROUNDING_POLICY || "open";
+const judgeEnabled = process.env.EVAL_JUDGE === "1" && !offline;
+const recallK = Number(process.env.EVAL_RECALL_K) || 4;
 const filePath = path.join(process.cwd(), "eval", "questions.json");
+const reportPath = path.join(process.cwd(), "eval", offline ? "report.offline.json" : "report.json");
 const raw = fs.readFileSync(filePath, "utf-8");
 const tests = JSON.parse(raw);
 
-const results = [];
+const METRICS = [
+  "recallAtK",
+  "recallAtKBoosted",
+  "citationValidity",
+  "citationSupport",
+  "keywordCoverage",
+  "judgeScore",
+  "durationMs"
+];
 
-for (const test of tests) {
-  const body =
+// Offline runs call the route handler in-process against the mock provider,
+// so no server, network or API key is needed.
+async function createChatClient() {
+  if (!offline) {
+    return (body) =>
+      fetch(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      });
+  }
+
+  process.env.AI_PROVIDER = "mock";
+  process.env.AI_MOCK_FIXTURES ??= path.join("eval", "fixtures.json");
+  // In-process requests carry no client address, so every case lands in the
+  // same bucket; size it to the run instead of failing later cases with 429.
+  process.env.RATE_LIMIT_CHAT_PER_MINUTE = String(Math.max(tests.length, 10));
+  const { POST } = await import("../app/api/chat/route");
+  return (body) =>
+    POST(
+      new Request("http://localhost/api/chat", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body)
+      })
+    );
+}
+
+function readPreviousReport() {
+  if (!fs.existsSync(reportPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(reportPath, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+function requestBody(test) {
+  return test.mode === "chat"
+    ? {
+        mode: "chat",
+        messages: [{ role: "user", content: test.input }]
+      }
+    : {
+        mode: "itinerary",
+        city: test.city,
+        days: test.days,
+        style: test.style,
+        budget: test.budget,
+        interests: test.interests
+      };
+}
+
+// Mirrors the route: 4 web sources plus 3 KB notes per query, boosted towards
+// the city the question or itinerary names. Feedback boosting is pinned per
+// call so RETRIEVAL_FEEDBACK_BOOST does not skew the comparison.
+function retrievalRecall(test, feedbackBoost = false) {
+  if (!Array.isArray(test.expectedSources) || test.expectedSources.length === 0) {
+    return null;
+  }
+
+  const query =
     test.mode === "chat"
-      ? {
-          mode: "chat",
-          messages: [{ role: "user", content: test.input }]
-        }
-      : {
-          mode: "itinerary",
-          city: test.city,
-          days: test.days,
-          style: test.style,
-          budget: test.budget,
-          interests: test.interests
-        };
+      ? test.input
+      : `${test.city} ${test.interests ?? ""} itinerary`;
+  const boost = { cities: detectCities(test.mode === "chat" ? query : test.city) };
+  const retrieved = new Set(
+    [
+      ...retrieve(query, recallK, { includeKb: false, feedbackBoost, boost }),
+      ...retrieve(query, Math.max(1, recallK - 1), { includeWeb: false, feedbackBoost, boost })
+    ].map((chunk) => chunk.sourceId)
+  );
+  const found = test.expectedSources.filter((id) => retrieved.has(id));
+
+  return {
+    value: found.length / test.expectedSources.length,
+    retrieved: Array.from(retrieved),
+    missing: test.expectedSources.filter((id) => !retrieved.has(id))
+  };
+}
+
+// Catches inflected place names ("до Самарканда") that stop folding to the
+// English spelling, which would silently drop the city boost.
+function sameCities(expected, text) {
+  const detected = detectCities(text);
+  return detected.length === expected.length && expected.every((city) => detected.includes(city));
+}
+
+function citationValidity(text, sourcesCount) {
+  const cited = Array.from(text.matchAll(/\bS(\d+)\b/g)).map((match) => Number(match[1]));
+  if (cited.length === 0) return null;
+  const valid = cited.filter((index) => index >= 1 && index <= sourcesCount);
+  return valid.length / cited.length;
+}
+
+function citationSupport(citations) {
+  const sentences = citations?.sentences ?? [];
+  if (sentences.length === 0) return null;
+  return sentences.filter((item) => item.support === "supported").length / sentences.length;
+}
+
+function keywordCoverage(test, text) {
+  const haystack = text.toLowerCase();
+  const required = test.requiredKeywords ?? [];
+  const forbidden = test.forbiddenKeywords ?? [];
+  const missing = required.filter((keyword) => !haystack.includes(keyword.toLowerCase()));
+  const present = forbidden.filter((keyword) => haystack.includes(keyword.toLowerCase()));
+
+  return {
+    value: required.length > 0 ? (required.length - missing.length) / required.length : null,
+    missing,
+    forbidden: present
+  };
+}
+
+async function judgeAnswer(test, text, sources) {
+  const baseUrl = process.env.AI_BASE_URL;
+  const apiKey = process.env.AI_API_KEY;
+  const model = process.env.EVAL_JUDGE_MODEL || process.env.AI_MODEL;
+  if (!judgeEnabled || !baseUrl || !apiKey || !model || !text) return null;
+
+  const trimmed = baseUrl.replace(/\/$/, "");
+  const url = trimmed.endsWith("/v1")
+    ? `${trimmed}/chat/completions`
+    : `${trimmed}/v1/chat/completions`;
+  const question =
+    test.mode === "chat"
+      ? test.input
+      : `${test.days}-day itinerary for ${test.city} (${test.interests ?? "no interests"})`;
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0,
+        max_tokens: 200,
+        messages: [
+          {
+            role: "system",
+            content:
+              "You grade answers from an Uzbekistan travel assistant. Score 1-5 for accuracy, groundedness in the listed sources and usefulness. Reply with ONLY JSON: {\"score\": <1-5>, \"reason\": \"<one sentence>\"}."
+          },
+          {
+            role: "user",
+            content: [
+              `Question: ${question}`,
+              `Sources: ${sources.map((source) => `${source.id} ${source.title}`).join("; ") || "none"}`,
+              `Answer:\n${text}`
+            ].join("\n\n")
+          }
+        ]
+      })
+    });
+    if (!res.ok) return null;
+
+    const data = await res.json();
+    const content = data?.choices?.[0]?.message?.content ?? "";
+    const parsed = JSON.parse(content.slice(content.indexOf("{"), content.lastIndexOf("}") + 1));
+    const score = Number(parsed.score);
+    if (!Number.isFinite(score)) return null;
+    return { value: (Math.min(5, Math.max(1, score)) - 1) / 4, reason: String(parsed.reason ?? "") };
+  } catch {
+    return null;
+  }
+}
+
+function average(values) {
+  const present = values.filter((value) => typeof value === "number");
+  if (present.length === 0) return null;
+  return Number((present.reduce((sum, value) => sum + value, 0) / present.length).toFixed(3));
+}
+
+function diffReports(previous, current) {
+  if (!previous?.summary) return null;
+
+  const metrics = {};
+  for (const metric of METRICS) {
+    const before = previous.summary.metrics?.[metric] ?? null;
+    const after = current.summary.metrics[metric];
+    if (typeof before === "number" && typeof after === "number") {
+      metrics[metric] = { before, after, delta: Number((after - before).toFixed(3)) };
+    }
+  }
+
+  const previousResults = new Map((previous.results ?? []).map((result) => [result.id, result]));
+  const regressions = [];
+  const fixed = [];
+  for (const result of current.results) {
+    const before = previousResults.get(result.id);
+    if (!before) continue;
+    if (before.ok && !result.ok) regressions.push(result.id);
+    if (!before.ok && result.ok) fixed.push(result.id);
+  }
+
+  return {
+    previousTimestamp: previous.summary.timestamp,
+    passed: { before: previous.summary.passed, after: current.summary.passed },
+    metrics,
+    regressions,
+    fixed
+  };
+}
 
+const previousReport = readPreviousReport();
+const postChat = await createChatClient();
+const hasPriors = sourcePriors().size > 0;
+const results = [];
+
+for (const test of tests) {
   const start = Date.now();
   let responseText = "";
   let responseSources = [];
   let responseItinerary = null;
+  let responseGrounding = null;
+  let responseCitations = null;
   let error = null;
 
   try {
-    const res = await fetch(apiUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body)
-    });
+    // Fixtures go through the same schema as live requests, so a malformed
+    // case fails here with field paths instead of as an opaque HTTP 400.
+    const validated = validateChatBody(requestBody(test));
+    if (!validated.ok) {
+      throw new Error(
+        `Invalid case: ${validated.errors.map((item) => `${item.path} ${item.message}`).join("; ")}`
+      );
+    }
+
+    const res = await postChat(validated.value);
 
     if (!res.ok) {
       const errText = await res.text();
@@ -46,11 +268,14 @@ for (const test of tests) {
     responseText = data.text || "";
     responseSources = data.sources || [];
     responseItinerary = data.itinerary || null;
+    responseGrounding = data.grounding || null;
+    responseCitations = data.citations || null;
   } catch (err) {
     error = err instanceof Error ? err.message : String(err);
   }
 
   const durationMs = Date.now() - start;
+  const expectsNoSources = test.expectGrounded === false || test.expectRefusal === true;
   const hasSourcesLine =
     /\bSources:\s*/i.test(responseText) ||
     (responseItinerary && Array.isArray(responseItinerary.sources));
@@ -61,12 +286,39 @@ for (const test of tests) {
     responseItinerary &&
     typeof responseItinerary.title === "string" &&
     Array.isArray(responseItinerary.days);
+  const groundingMatches =
+    test.expectGrounded === undefined ||
+    (test.expectGrounded
+      ? responseGrounding === "grounded"
+      : responseGrounding !== "grounded" &&
+        (responseGrounding !== "refused" || responseSources.length === 0));
+  // A refusal is only expected when the deployment runs the strict policy.
+  const refusalMatches =
+    test.expectRefusal === undefined ||
+    groundingPolicy !== "strict" ||
+    (responseGrounding === "refused") === Boolean(test.expectRefusal);
+
+  const recall = retrievalRecall(test);
+  const boostedRecall = hasPriors ? retrievalRecall(test, true) : null;
+  // The mock provider only echoes sources, so answer wording is not scored offline.
+  const keywords = offline
+    ? { value: null, missing: [], forbidden: [] }
+    : keywordCoverage(test, responseText);
+  const validity = error ? null : citationValidity(responseText, responseSources.length);
+  const judge = error ? null : await judgeAnswer(test, responseText, responseSources);
 
   const checks = {
-    sources: hasSourcesLine,
-    dayStructure: test.expectDayStructure ? hasDayStructure : true,
+    sources: Boolean(hasSourcesLine),
+    dayStructure: test.expectDayStructure ? Boolean(hasDayStructure) : true,
     structured: test.mode === "itinerary" ? Boolean(hasStructuredItinerary) : true,
-    sourcesReturned: responseSources.length >= 0
+    sourcesReturned: expectsNoSources || responseSources.length > 0,
+    grounding: groundingMatches,
+    refusal: refusalMatches,
+    recall: test.minRecall === undefined || (recall !== null && recall.value >= test.minRecall),
+    cities: test.expectedCities === undefined || sameCities(test.expectedCities, test.input),
+    citations: validity === null ? !test.expectGrounded : validity === 1,
+    keywords: keywords.missing.length === 0 && keywords.forbidden.length === 0,
+    latency: !test.maxLatencyMs || durationMs <= test.maxLatencyMs
   };
 
   results.push({
@@ -76,6 +328,25 @@ for (const test of tests) {
     ok: !error && Object.values(checks).every(Boolean),
     error,
     checks,
+    metrics: {
+      recallAtK: recall?.value ?? null,
+      recallAtKBoosted: boostedRecall?.value ?? null,
+      citationValidity: validity,
+      citationSupport: citationSupport(responseCitations),
+      keywordCoverage: error ? null : keywords.value,
+      judgeScore: judge?.value ?? null
+    },
+    retrieval: recall
+      ? {
+          retrieved: recall.retrieved,
+          missing: recall.missing,
+          boostedMissing: boostedRecall?.missing ?? null
+        }
+      : null,
+    missingKeywords: keywords.missing,
+    forbiddenKeywords: keywords.forbidden,
+    judgeReason: judge?.reason ?? null,
+    grounding: responseGrounding,
     sample: responseText.slice(0, 240),
     sourcesCount: responseSources.length
   });
@@ -83,33 +354,82 @@ for (const test of tests) {
 
 const passed = results.filter((result) => result.ok).length;
 const total = results.length;
+const metrics = Object.fromEntries(
+  METRICS.map((metric) => [
+    metric,
+    average(
+      results.map((result) =>
+        metric === "durationMs" ? (result.error ? null : result.durationMs) : result.metrics[metric]
+      )
+    )
+  ])
+);
+
+const report = {
+  summary: {
+    passed,
+    total,
+    offline,
+    recallK,
+    groundingPolicy,
+    metrics,
+    timestamp: new Date().toISOString()
+  },
+  results
+};
+report.diff = diffReports(previousReport, report);
 
 console.log(`Eval results: ${passed}/${total} passed`);
 for (const result of results) {
   console.log(`- ${result.id} (${result.mode}): ${result.ok ? "ok" : "fail"}`);
+  if (result.retrieval) {
+    console.log(
+      `  recall@${recallK}: ${result.metrics.recallAtK}${result.retrieval.missing.length > 0 ? ` (missing ${result.retrieval.missing.join(", ")})` : ""}`
+    );
+    if (result.metrics.recallAtKBoosted !== null) {
+      console.log(`  recall@${recallK} with feedback boost: ${result.metrics.recallAtKBoosted}`);
+    }
+  }
   if (result.error) {
     console.log(`  error: ${result.error}`);
   } else {
-    console.log(`  sources: ${result.checks.sources}`);
-    if (result.mode === "itinerary") {
-      console.log(`  dayStructure: ${result.checks.dayStructure}`);
-      console.log(`  structured: ${result.checks.structured}`);
+    const failed = Object.entries(result.checks)
+      .filter(([, ok]) => !ok)
+      .map(([name]) => name);
+    if (failed.length > 0) {
+      console.log(`  failed checks: ${failed.join(", ")}`);
+    }
+    console.log(`  grounding: ${result.grounding}`);
+    console.log(`  citations: validity ${result.metrics.citationValidity ?? "n/a"}, support ${result.metrics.citationSupport ?? "n/a"}`);
+    if (result.metrics.keywordCoverage !== null) {
+      console.log(`  keywords: ${result.metrics.keywordCoverage}${result.missingKeywords.length > 0 ? ` (missing ${result.missingKeywords.join(", ")})` : ""}`);
     }
-    console.log(`  sourcesCount: ${result.sourcesCount}`);
+    if (result.forbiddenKeywords.length > 0) {
+      console.log(`  forbidden keywords present: ${result.forbiddenKeywords.join(", ")}`);
+    }
+    if (result.metrics.judgeScore !== null) {
+      console.log(`  judge: ${result.metrics.judgeScore} — ${result.judgeReason}`);
+    }
+    console.log(`  sourcesCount: ${result.sourcesCount}, ${result.durationMs}ms`);
     console.log(`  sample: ${result.sample.replace(/\n/g, " ")}`);
   }
 }
 
-const report = {
-  summary: {
-    passed,
-    total,
-    timestamp: new Date().toISOString()
-  },
-  results
-};
+console.log("Metrics:");
+for (const metric of METRICS) {
+  const change = report.diff?.metrics[metric];
+  const suffix = change ? ` (was ${change.before}, ${change.delta >= 0 ? "+" : ""}${change.delta})` : "";
+  console.log(`  ${metric}: ${metrics[metric] ?? "n/a"}${suffix}`);
+}
 
-fs.writeFileSync(
-  path.join(process.cwd(), "eval", "report.json"),
-  JSON.stringify(report, null, 2)
-);
+if (report.diff) {
+  if (report.diff.fixed.length > 0) {
+    console.log(`Fixed since ${report.diff.previousTimestamp}: ${report.diff.fixed.join(", ")}`);
+  }
+  if (report.diff.regressions.length > 0) {
+    console.log(`Regressions since ${report.diff.previousTimestamp}: ${report.diff.regressions.join(", ")}`);
+    process.exitCode = 1;
+  }
+}
+
+fs.writeFileSync(reportPath, JSON.stringify(report, null, 2));
@@ -1,5 +1,8 @@
 import fs from "fs";
 import path from "path";
+import { describeOverdue, overdueSources } from "../lib/freshness";
+import { diffSources, duplicateIds, nearDuplicates, parseKbFile } from "../lib/kb";
+import { buildIndexArtifact } from "../lib/rag";
 
 function walk(dir, files = []) {
   if (!fs.existsSync(dir)) return files;
@@ -15,38 +18,16 @@ function walk(dir, files = []) {
   return files;
 }
 
-function parseFrontmatter(raw) {
-  if (!raw.startsWith("---")) return { frontmatter: {}, body: raw };
-  const end = raw.indexOf("\n---", 3);
-  if (end === -1) return { frontmatter: {}, body: raw };
-  const fmBlock = raw.slice(3, end).trim();
-  const body = raw.slice(end + 4).trim();
-  const frontmatter = {};
-  for (const line of fmBlock.split("\n")) {
-    const [key, ...rest] = line.split(":");
-    if (!key || rest.length === 0) continue;
-    frontmatter[key.trim()] = rest.join(":").trim().replace(/^"|"$/g, "");
-  }
-  return { frontmatter, body };
-}
-
-function extractTitle(body) {
-  const match = body.match(/^#\s+(.+)$/m);
-  if (!match) return { title: null, body };
-  const title = match[1].trim();
-  const cleaned = body.replace(match[0], "").trim();
-  return { title, body: cleaned };
-}
-
-function slugify(text) {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, "-")
-    .replace(/(^-|-$)+/g, "");
+function printList(label, items) {
+  if (items.length === 0) return;
+  console.log(`\n${label}:`);
+  for (const item of items) console.log(`  ${item}`);
 }
 
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
 const kbPath =
-  process.argv[2] ||
+  args.find((arg) => !arg.startsWith("--")) ||
   process.env.KB_PATH ||
   path.join(process.cwd(), "backend", "kb");
 
@@ -55,37 +36,81 @@ if (!fs.existsSync(kbPath)) {
   process.exit(1);
 }
 
-const files = walk(kbPath);
+const files = walk(kbPath).sort();
 if (files.length === 0) {
   console.error("No .md files found in KB path.");
   process.exit(1);
 }
 
+const errors = [];
+const parsed = [];
+for (const filePath of files) {
+  const file = path.relative(kbPath, filePath);
+  const result = parseKbFile(fs.readFileSync(filePath, "utf-8"), file);
+  errors.push(...result.errors);
+  if (result.source) parsed.push({ file, source: result.source });
+}
+errors.push(...duplicateIds(parsed));
+
+printList(
+  "Near-duplicate content (check these are not copies)",
+  nearDuplicates(parsed).map(
+    (pair) => `${pair.files[0]} ~ ${pair.files[1]} (${Math.round(pair.similarity * 100)}% shared)`
+  )
+);
+
+if (errors.length > 0) {
+  printList(`${errors.length} validation error(s)`, errors.map((error) => `${error.file}: ${error.message}`));
+  console.error("\nKB ingestion aborted; data/sources.json was not changed.");
+  process.exit(1);
+}
+
 const sourcesPath = path.join(process.cwd(), "data", "sources.json");
 const existing = fs.existsSync(sourcesPath)
   ? JSON.parse(fs.readFileSync(sourcesPath, "utf-8"))
   : [];
+const previousKb = existing.filter((item) => String(item.id || "").startsWith("kb-"));
+const diff = diffSources(previousKb, parsed.map((entry) => entry.source));
 
-const kbSources = files.map((filePath) => {
-  const raw = fs.readFileSync(filePath, "utf-8");
-  const { frontmatter, body } = parseFrontmatter(raw);
-  const { title: h1Title, body: cleanedBody } = extractTitle(body);
-  const title = frontmatter.title || h1Title || path.basename(filePath, ".md");
-  const slug = slugify(path.relative(kbPath, filePath));
-  const url = frontmatter.url || frontmatter.source || `https://uzbektourist.uz/kb/${slug}`;
+// Unchanged files keep the date they were first fetched (and pick up fields
+// an older record lacks); added and changed ones are stamped with this run.
+const fetchedAt = new Date().toISOString();
+const previousById = new Map(previousKb.map((item) => [item.id, item]));
+const kbSources = parsed.map(({ source }) =>
+  diff.unchanged.includes(source.id)
+    ? { ...previousById.get(source.id), ...source }
+    : { ...source, fetchedAt }
+);
 
-  return {
-    id: `kb-${slug}`,
-    title,
-    url,
-    content: cleanedBody.trim(),
-    tags: frontmatter.tags ? frontmatter.tags.split(",").map((t) => t.trim()) : undefined
-  };
-});
+console.log(
+  `KB: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed, ${diff.unchanged.length} unchanged`
+);
+printList("Added", diff.added);
+printList("Changed", diff.changed);
+printList("Removed", diff.removed);
 
 const preserved = existing.filter((item) => !String(item.id || "").startsWith("kb-"));
 const merged = [...preserved, ...kbSources];
+const changed =
+  diff.added.length + diff.changed.length + diff.removed.length > 0 ||
+  JSON.stringify(merged) !== JSON.stringify(existing);
 
-fs.writeFileSync(sourcesPath, JSON.stringify(merged, null, 2));
+if (dryRun) {
+  console.log("\nDry run: data/sources.json and data/index.json were not written.");
+} else if (!changed) {
+  console.log("\nNo KB changes; data/sources.json and data/index.json left as they are.");
+} else {
+  fs.writeFileSync(sourcesPath, JSON.stringify(merged, null, 2));
+  console.log(`\nWrote ${kbSources.length} KB sources to data/sources.json`);
 
-console.log(`Ingested ${kbSources.length} KB files into data/sources.json`);
+  const index = buildIndexArtifact();
+  console.log(`Indexed ${index.chunks} chunks into data/index.json`);
+}
+
+const overdue = overdueSources(merged);
+if (overdue.length > 0) {
+  console.log(`\n${overdue.length} source(s) overdue for review:`);
+  for (const item of overdue) {
+    console.log(`  ${item.source.id}: ${describeOverdue(item)}`);
+  }
+}
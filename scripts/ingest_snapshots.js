@@ -0,0 +1,145 @@
+import fs from "fs";
+import path from "path";
+import { extractText, getDocumentProxy } from "unpdf";
+import { describeOverdue, overdueSources } from "../lib/freshness";
+import { buildIndexArtifact } from "../lib/rag";
+import { cleanPdfText, extractHtml, normalizeUrl, snapshotId } from "../lib/snapshots";
+
+const MANIFEST = "manifest.json";
+const MIN_CONTENT_CHARS = 200;
+
+function walk(dir, files = []) {
+  if (!fs.existsSync(dir)) return files;
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      walk(fullPath, files);
+    } else if (entry.isFile() && /\.(html?|pdf)$/i.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+// manifest.json lists per-file metadata that a snapshot can't carry itself:
+// [{ "file": "railways/timetable.pdf", "url": "...", "capturedAt": "2026-10-01",
+//    "title": "...", "tags": ["transport"], "city": "...", "lastVerified": "..." }]
+function readManifest(dir) {
+  const filePath = path.join(dir, MANIFEST);
+  if (!fs.existsSync(filePath)) return new Map();
+  const entries = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  return new Map(entries.map((entry) => [path.normalize(entry.file), entry]));
+}
+
+async function extractPdf(filePath) {
+  const pdf = await getDocumentProxy(new Uint8Array(fs.readFileSync(filePath)));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return { title: null, url: null, capturedAt: null, content: cleanPdfText(text) };
+}
+
+const snapshotsPath =
+  process.argv[2] ||
+  process.env.SNAPSHOTS_PATH ||
+  path.join(process.cwd(), "snapshots");
+
+if (!fs.existsSync(snapshotsPath)) {
+  console.error(`Snapshots path not found: ${snapshotsPath}`);
+  process.exit(1);
+}
+
+const files = walk(snapshotsPath);
+if (files.length === 0) {
+  console.error("No .html or .pdf files found in snapshots path.");
+  process.exit(1);
+}
+
+const manifest = readManifest(snapshotsPath);
+const sourcesPath = path.join(process.cwd(), "data", "sources.json");
+const sources = fs.existsSync(sourcesPath)
+  ? JSON.parse(fs.readFileSync(sourcesPath, "utf-8"))
+  : [];
+const problems = [];
+let added = 0;
+let updated = 0;
+
+for (const filePath of files) {
+  const relative = path.relative(snapshotsPath, filePath);
+  const entry = manifest.get(path.normalize(relative)) ?? {};
+  const page = /\.pdf$/i.test(filePath)
+    ? await extractPdf(filePath)
+    : extractHtml(fs.readFileSync(filePath, "utf-8"));
+
+  const url = entry.url ?? page.url;
+  if (!url || !/^https?:\/\//i.test(url)) {
+    problems.push(`${relative}: no original URL (add it to ${MANIFEST})`);
+    continue;
+  }
+  if (page.content.length < MIN_CONTENT_CHARS) {
+    problems.push(`${relative}: only ${page.content.length} characters of text extracted`);
+    continue;
+  }
+
+  const captured = new Date(entry.capturedAt ?? page.capturedAt ?? fs.statSync(filePath).mtime);
+  if (Number.isNaN(captured.getTime())) {
+    problems.push(`${relative}: capturedAt ${JSON.stringify(entry.capturedAt)} in ${MANIFEST} is not a date`);
+    continue;
+  }
+  const capturedAt = captured.toISOString();
+
+  // A snapshot of a page that is already a source (hand-written or an earlier
+  // capture) replaces its content but keeps its id, title and tags, so
+  // feedback priors and citations stay attached. A human `lastVerified` date
+  // only carries over from the manifest, since it vouched for the old text.
+  const key = normalizeUrl(url);
+  const existing = sources.find((source) => normalizeUrl(source.url) === key);
+  const tags = Array.from(new Set([...(existing?.tags ?? []), ...(entry.tags ?? [])]));
+  const id = existing?.id ?? snapshotId(url, new Set(sources.map((item) => item.id)));
+  if (!existing && id !== snapshotId(url)) {
+    console.log(`note: ${snapshotId(url)} is already used by another URL; ${relative} becomes ${id}`);
+  }
+  const source = {
+    id,
+    title: entry.title ?? existing?.title ?? page.title ?? relative,
+    url,
+    content: page.content,
+    tags: tags.length > 0 ? tags : undefined,
+    city: entry.city ?? existing?.city,
+    lastVerified: entry.lastVerified,
+    fetchedAt: capturedAt
+  };
+
+  if (existing) {
+    sources[sources.indexOf(existing)] = source;
+    updated += 1;
+  } else {
+    sources.push(source);
+    added += 1;
+  }
+  console.log(`${existing ? "updated" : "added"} ${source.id} <- ${relative} (${page.content.length} chars)`);
+}
+
+if (added + updated > 0) {
+  fs.writeFileSync(sourcesPath, JSON.stringify(sources, null, 2));
+  console.log(`Ingested ${added + updated} snapshots into data/sources.json (${added} added, ${updated} updated)`);
+
+  const index = buildIndexArtifact();
+  console.log(`Indexed ${index.chunks} chunks into data/index.json`);
+} else {
+  console.log("No snapshots ingested; data/sources.json and data/index.json left as they are.");
+}
+
+if (problems.length > 0) {
+  console.log(`\nSkipped ${problems.length} snapshot(s):`);
+  for (const problem of problems) console.log(`  ${problem}`);
+}
+
+const overdue = overdueSources(sources);
+if (overdue.length > 0) {
+  console.log(`\n${overdue.length} source(s) overdue for review:`);
+  for (const item of overdue) {
+    console.log(`  ${item.source.id}: ${describeOverdue(item)}`);
+  }
+}
+
+if (added + updated === 0) process.exit(1);
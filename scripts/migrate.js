@@ -0,0 +1,69 @@
+import { loadMigrations, migrationStatus, poolMigrationClient, runMigrations } from "../lib/migrations";
+
+const args = process.argv.slice(2);
+const statusOnly = args.includes("--status");
+const pgliteArg = args.find((arg) => arg === "--pglite" || arg.startsWith("--pglite="));
+
+// --pglite runs against an embedded Postgres (in memory, or in the given data
+// directory) so migrations can be tried without a database server.
+async function connect() {
+  if (pgliteArg) {
+    const { PGlite } = await import("@electric-sql/pglite");
+    const dataDir = pgliteArg.split("=")[1] || undefined;
+    const db = new PGlite(dataDir);
+    return {
+      label: dataDir ? `PGlite (${dataDir})` : "PGlite (in memory)",
+      client: db,
+      close: () => db.close()
+    };
+  }
+
+  if (!process.env.POSTGRES_URL) {
+    throw new Error("POSTGRES_URL is not set. Use --pglite to migrate an embedded database.");
+  }
+
+  const { db } = await import("@vercel/postgres");
+  const client = await db.connect();
+  return {
+    label: "POSTGRES_URL",
+    client: poolMigrationClient(client),
+    close: async () => {
+      client.release();
+      await db.end();
+    }
+  };
+}
+
+const migrations = loadMigrations();
+const { label, client, close } = await connect();
+
+try {
+  if (statusOnly) {
+    const status = await migrationStatus(client, migrations);
+    console.log(`${label}: ${status.applied.length} applied, ${status.pending.length} pending.`);
+    for (const migration of status.pending) {
+      console.log(`  pending ${migration.file}`);
+    }
+    for (const migration of status.changed) {
+      console.log(`  edited after apply: ${migration.file}`);
+    }
+    if (status.pending.length > 0 || status.changed.length > 0) {
+      process.exitCode = 1;
+    }
+  } else {
+    const applied = await runMigrations(client, migrations);
+    for (const migration of applied) {
+      console.log(`Applied ${migration.file}`);
+    }
+    console.log(
+      applied.length > 0
+        ? `${label}: applied ${applied.length} migration(s).`
+        : `${label}: already up to date.`
+    );
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : String(error));
+  process.exitCode = 1;
+} finally {
+  await close();
+}